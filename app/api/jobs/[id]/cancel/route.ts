@@ -0,0 +1,9 @@
+// app/api/jobs/[id]/cancel/route.ts
+
+import { jobTransition } from '../../service'
+
+// POST /api/jobs/:id/cancel: drop a waiting job, or stop a running one
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return jobTransition(id, jobs => jobs.cancel(id))
+}
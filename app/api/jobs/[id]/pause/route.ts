@@ -0,0 +1,10 @@
+// app/api/jobs/[id]/pause/route.ts
+
+import { jobTransition } from '../../service'
+
+// POST /api/jobs/:id/pause: hold a queued job back, or stop a running one
+// at the end of its current move with the pen lifted
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return jobTransition(id, jobs => jobs.pause(id))
+}
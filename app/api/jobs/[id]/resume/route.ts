@@ -0,0 +1,9 @@
+// app/api/jobs/[id]/resume/route.ts
+
+import { jobTransition } from '../../service'
+
+// POST /api/jobs/:id/resume: carry on with a paused job
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return jobTransition(id, jobs => jobs.resume(id))
+}
@@ -0,0 +1,16 @@
+// app/api/jobs/[id]/route.ts
+
+import { NextResponse } from 'next/server'
+import { errorResponse, jobService } from '../service'
+
+// GET /api/jobs/:id: state and progress of one job
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  try {
+    const { jobs } = await jobService()
+    const job = jobs.get(id)
+    return job ? NextResponse.json({ job }) : errorResponse(`Unknown job ${id}`, 404)
+  } catch (error) {
+    return errorResponse(error, 500)
+  }
+}
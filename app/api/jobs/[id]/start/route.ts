@@ -0,0 +1,9 @@
+// app/api/jobs/[id]/start/route.ts
+
+import { jobTransition } from '../../service'
+
+// POST /api/jobs/:id/start: queue a pending job
+export async function POST(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  return jobTransition(id, jobs => jobs.start(id))
+}
@@ -0,0 +1,84 @@
+// app/api/jobs/route.ts
+
+import { NextRequest, NextResponse } from 'next/server'
+import { PlotterSequence } from '@/lib/types'
+import { SEQUENCE_FORMATS, SequenceFormat, SequenceLoader } from '@/lib/SequenceLoader'
+import { Placement } from '@/lib/Placement'
+import { PaperProfiles } from '@/lib/PaperProfile'
+import { errorResponse, jobService } from './service'
+
+const CONTENT_TYPES: Record<string, SequenceFormat> = {
+  'application/json': 'json',
+  'image/svg+xml': 'svg'
+}
+
+// GET /api/jobs: every job with its state and progress
+export async function GET() {
+  try {
+    const { jobs } = await jobService()
+    return NextResponse.json({ jobs: jobs.list() })
+  } catch (error) {
+    return errorResponse(error, 500)
+  }
+}
+
+// POST /api/jobs?name=&format=json|svg|gcode|hpgl|dxf&start=true
+// The body is the file itself, or multipart form data with a "file" field.
+// Jobs wait to be started unless start=true. Sequences that need pen changes
+// are rejected with 400, since the REST API cannot confirm them.
+export async function POST(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const contentType = request.headers.get('content-type')?.split(';')[0].trim() ?? ''
+
+  let text: string
+  let name = params.get('name') ?? ''
+  try {
+    if (contentType === 'multipart/form-data') {
+      const file = (await request.formData()).get('file')
+      if (!(file instanceof File)) {
+        return errorResponse('Form data needs a "file" field')
+      }
+      text = await file.text()
+      name ||= file.name
+    } else {
+      text = await request.text()
+    }
+  } catch (error) {
+    return errorResponse(`Could not read the upload: ${error}`)
+  }
+  if (!text.trim()) {
+    return errorResponse('The upload is empty')
+  }
+
+  const format = (params.get('format') ?? CONTENT_TYPES[contentType]) as SequenceFormat | undefined
+  if (format && !SEQUENCE_FORMATS.includes(format)) {
+    return errorResponse(`Unsupported format ${format}; expected one of ${SEQUENCE_FORMATS.join(', ')}`)
+  }
+
+  try {
+    const { jobs, paper, calibration } = await jobService()
+    // Nobody is at the plotter to swap pens for REST jobs, so artwork is
+    // drawn with a single pen; multi-pen sequence files are refused
+    const loaded = SequenceLoader.load(text, name || 'Upload', {
+      format,
+      calibration,
+      pens: 'single',
+      paper: PaperProfiles.size(paper)
+    })
+
+    // Imported artwork goes on the page the way the UI places it;
+    // sequence files are already laid out
+    let sequence: PlotterSequence = loaded.sequence
+    if (loaded.format !== 'json') {
+      const area = PaperProfiles.printableArea(paper)
+      sequence = Placement.apply(sequence, area, Placement.defaultFor(sequence, area))
+    }
+
+    // Drawings are laid out from the sheet's top-left, the plotter homes
+    // at the profile's origin
+    const job = jobs.submit(PaperProfiles.toMachineSequence(paper, sequence), params.get('start') === 'true')
+    return NextResponse.json({ job, issues: loaded.issues }, { status: 201 })
+  } catch (error) {
+    return errorResponse(error)
+  }
+}
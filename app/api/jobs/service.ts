@@ -0,0 +1,73 @@
+// app/api/jobs/service.ts
+
+import { NextResponse } from 'next/server'
+import { CalibrationSettings, DEFAULT_CALIBRATION, DEFAULT_MOTION_LIMITS } from '@/lib/types'
+import { DriverRegistry } from '@/lib/drivers'
+import { PlotterDriver } from '@/lib/PlotterDriver'
+import { MovementValidator } from '@/lib/MovementValidator'
+import { PathExecutor } from '@/lib/pathUtils'
+import { JobQueue, PlotJob } from '@/lib/JobQueue'
+import { DEFAULT_PAPER_PROFILE, PaperProfile, PaperProfiles } from '@/lib/PaperProfile'
+import { createNodeDriver } from '@/server/nodeDriver'
+
+export interface JobService {
+  driver: PlotterDriver
+  jobs: JobQueue
+  paper: PaperProfile
+  calibration: CalibrationSettings
+}
+
+// Route modules may be loaded more than once (dev reloads), but the server
+// process drives a single plotter
+const globalForJobs = globalThis as typeof globalThis & { plotterJobs?: Promise<JobService> }
+
+export function jobService(): Promise<JobService> {
+  globalForJobs.plotterJobs ??= createService().catch(error => {
+    globalForJobs.plotterJobs = undefined
+    throw error
+  })
+  return globalForJobs.plotterJobs
+}
+
+// PLOTTER_DRIVER picks the backend; without it jobs run on the simulator
+async function createService(): Promise<JobService> {
+  const paper = DEFAULT_PAPER_PROFILE
+  const calibration = PaperProfiles.calibration(paper, DEFAULT_CALIBRATION)
+  const simple = { x: calibration.degreesPerMM.X, y: calibration.degreesPerMM.Y }
+
+  const driver = await createNodeDriver(process.env.PLOTTER_DRIVER ?? DriverRegistry.defaultFor(true), simple)
+  await driver.connect()
+
+  // Validation follows the UI: bounds are only enforced on real hardware
+  const validator = new MovementValidator(PaperProfiles.movementBounds(paper), simple, driver.capabilities.simulated)
+  const executor = new PathExecutor(
+    driver,
+    calibration,
+    false,
+    50,
+    30,
+    validator,
+    DEFAULT_MOTION_LIMITS,
+    PaperProfiles.penChangePosition(paper)
+  )
+
+  return { driver, jobs: new JobQueue(executor, validator, driver.commandQueue), paper, calibration }
+}
+
+export function errorResponse(error: unknown, status: number = 400) {
+  return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status })
+}
+
+// Apply a state change to a job: 404 for unknown jobs, 409 when the job
+// is not in a state that allows it
+export async function jobTransition(id: string, change: (jobs: JobQueue) => PlotJob) {
+  try {
+    const { jobs } = await jobService()
+    if (!jobs.has(id)) {
+      return errorResponse(`Unknown job ${id}`, 404)
+    }
+    return NextResponse.json({ job: change(jobs) })
+  } catch (error) {
+    return errorResponse(error, 409)
+  }
+}
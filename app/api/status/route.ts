@@ -0,0 +1,22 @@
+// app/api/status/route.ts
+
+import { NextResponse } from 'next/server'
+import { errorResponse, jobService } from '../jobs/service'
+
+// GET /api/status: where the plotter is and what it is doing
+export async function GET() {
+  try {
+    const { driver, jobs } = await jobService()
+    const list = jobs.list()
+    return NextResponse.json({
+      driver: { id: driver.id, name: driver.name, capabilities: driver.capabilities },
+      connected: driver.isConnected(),
+      busy: jobs.busy,
+      position: driver.getPositionUpdate(),
+      current: list.find(job => job.state === 'running' || job.state === 'paused') ?? null,
+      queued: list.filter(job => job.state === 'queued').length
+    })
+  } catch (error) {
+    return errorResponse(error, 500)
+  }
+}
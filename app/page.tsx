@@ -1,7 +1,7 @@
 // app/page.tsx
 'use client'
 
-import { useState, useEffect, useRef, type Dispatch, type SetStateAction } from 'react'
+import { useState, useEffect, useMemo, useRef, type Dispatch, type SetStateAction } from 'react'
 import { CalibrationTool } from '@/components/CalibrationTool'
 import { PositionPresets } from '@/components/PositionPresets'
 import { CoordinateGrid } from '@/components/CoordinateGrid'
@@ -13,14 +13,20 @@ import { SafetyDiagnostics } from '@/components/SafetyDiagnostics'
 import { TestingPanel } from '@/components/TestingPanel'
 import { SequenceManager } from '@/components/SequenceManager'
 import { ManualControl } from '@/components/ManualControl'
+import { PaperSettings } from '@/components/PaperSettings'
+import { PenChangePrompt } from '@/components/PenChangePrompt'
+import { SheetChangePrompt } from '@/components/SheetChangePrompt'
 
 import { CommandQueue } from '@/lib/CommandQueue'
 import { SafetyController } from '@/lib/SafetyController'
 import { MovementValidator } from '@/lib/MovementValidator'
 import { ConnectionMonitor } from '@/lib/ConnectionMonitor'
-import { PathExecutor, PathOptimizer, PathProcessor } from '@/lib/pathUtils'
+import { ExecutionState, PathExecutor, PathOptimizer, PathProcessor } from '@/lib/pathUtils'
 import { PathPlanner } from '@/lib/PathPlanner'
-import { PlotterControl } from '@/lib/plotter'
+import { Tile, TileLayout } from '@/lib/SheetTiler'
+import { DEFAULT_PAPER_PROFILE, PaperProfile, PaperProfiles } from '@/lib/PaperProfile'
+import { DriverRegistry } from '@/lib/drivers'
+import type { PlotterDriver } from '@/lib/PlotterDriver'
 import { 
   CalibrationSettings, 
   SimpleCalibration,
@@ -30,13 +36,13 @@ import {
   PlotterMove,
   DEFAULT_SETTINGS, 
   DEFAULT_LIMITS,
-  MOVEMENT_BOUNDS,
   COMMAND_TIMEOUT,
   DEFAULT_CALIBRATION,
+  DEFAULT_MOTION_LIMITS,
   MONITORING_INTERVAL,
-  A5_SIZE,
   HOME_POSITION,
   PEN_POSITIONS,
+  PenAssignment,
   NotificationType,
   PreviewPath,
   Position
@@ -55,6 +61,15 @@ declare global {
   }
 } 
 
+// What the sequence controls say while a sequence is running
+const EXECUTION_LABELS: Record<ExecutionState, string> = {
+  idle: '',
+  running: 'Plotting',
+  pausing: 'Pausing after this move...',
+  paused: 'Paused',
+  resuming: 'Resuming...',
+  cancelling: 'Cancelling after this move...'
+};
 
 interface PlotterState {
   position: Position;
@@ -86,11 +101,20 @@ export default function TestInterface() {
   
   const [previewSequence, setPreviewSequence] = useState<PlotterSequence | null>(null)
   const [executionProgress, setExecutionProgress] = useState<number>(0)
-  const maxX = MOVEMENT_BOUNDS.paperWidth
-  const maxY = MOVEMENT_BOUNDS.paperHeight
+  const [executionState, setExecutionState] = useState<ExecutionState>('idle')
+
+  // Paper on the plotter; sizes, bounds and import scaling all follow it
+  const [paperProfile, setPaperProfile] = useState<PaperProfile>(DEFAULT_PAPER_PROFILE)
+  const { width: maxX, height: maxY } = PaperProfiles.size(paperProfile)
+  const paperBounds = PaperProfiles.movementBounds(paperProfile)
+  const printableArea = useMemo(() => PaperProfiles.printableArea(paperProfile), [paperProfile])
+
+  useEffect(() => {
+    setPaperProfile(PaperProfiles.load())
+  }, [])
 
   // Plotter control state
-  const [plotterControl, setPlotterControl] = useState<PlotterControl | null>(null)
+  const [plotterControl, setPlotterControl] = useState<PlotterDriver | null>(null)
   const [plotterState, setPlotterState] = useState<PlotterState>({
     position: { x: 0, y: 0 },
     isConnected: false,
@@ -168,8 +192,12 @@ export default function TestInterface() {
       Y: 10
     },
     maxTravel: {
-      X: MOVEMENT_BOUNDS.maxX,
-      Y: MOVEMENT_BOUNDS.maxY
+      X: DEFAULT_CALIBRATION.maxTravel.X,
+      Y: DEFAULT_CALIBRATION.maxTravel.Y
+    },
+    backlash: {
+      X: 0,
+      Y: 0
     },
     x: 10,  // Add simple format
     y: 10   // Add simple format
@@ -220,8 +248,9 @@ export default function TestInterface() {
     setPenState(current => current === 'up' ? 'down' : 'up')
   }
 
-  const handlePositionClick = async (x: number, y: number) => {
+  const handlePositionClick = async (gridX: number, gridY: number) => {
     if (!isDrawingMode && (plotterRef.current || simulationMode)) {
+      const { x, y } = PaperProfiles.toMachine(paperProfile, { x: gridX, y: gridY });
       try {
         // In simulation mode, skip some validations
         if (!simulationMode && movementValidator.current) {
@@ -324,7 +353,7 @@ export default function TestInterface() {
     // Update all systems that depend on calibration
     if (movementValidator.current) {
       movementValidator.current = new MovementValidator(
-        MOVEMENT_BOUNDS,
+        paperBounds,
         convertCalibrationFormat(settings), // Use new settings, not current state
         simulationMode
       );
@@ -334,24 +363,122 @@ export default function TestInterface() {
       pathExecutor.current = new PathExecutor(
         plotterRef.current,
         settings,
-        simulationMode,
+        false,
         50,
-        30
+        30,
+        movementValidator.current ?? undefined,
+        DEFAULT_MOTION_LIMITS,
+        PaperProfiles.penChangePosition(paperProfile)
       );
     }
+
+    plotterRef.current?.setCalibration(convertCalibrationFormat(settings));
   };
   
+  // Pen change the running sequence is waiting on
+  const [penChange, setPenChange] = useState<{
+    pen: PenAssignment;
+    layer: number;
+    layerCount: number;
+    resolve: (proceed: boolean) => void;
+  } | null>(null);
+
+  const confirmPenChange = (pen: PenAssignment, layer: number, layerCount: number) =>
+    new Promise<boolean>(resolve => setPenChange({ pen, layer, layerCount, resolve }));
+
+  const resolvePenChange = (proceed: boolean) => {
+    penChange?.resolve(proceed);
+    setPenChange(null);
+  };
+
+  // Sheet a tiled drawing is waiting on
+  const [sheetChange, setSheetChange] = useState<{
+    tile: Tile;
+    sheet: number;
+    sheetCount: number;
+    resolve: (proceed: boolean) => void;
+  } | null>(null);
+
+  const confirmSheetChange = (tile: Tile, sheet: number, sheetCount: number) =>
+    new Promise<boolean>(resolve => setSheetChange({ tile, sheet, sheetCount, resolve }));
+
+  const resolveSheetChange = (proceed: boolean) => {
+    sheetChange?.resolve(proceed);
+    setSheetChange(null);
+  };
+
+  // Paper profile: saved for the next session, and the validators are
+  // rebuilt so every move is checked against the new sheet
+  const handlePaperProfileChange = (profile: PaperProfile) => {
+    try {
+      PaperProfiles.save(profile);
+    } catch (error) {
+      addNotification(`${error instanceof Error ? error.message : error}`, 'error');
+      return;
+    }
+    setPaperProfile(profile);
+  };
+
+  useEffect(() => {
+    // Axis travel follows the sheet; only store it when it changed, so the
+    // update does not run this effect again and again
+    const next = PaperProfiles.calibration(paperProfile, calibration);
+    if (next.maxTravel.X !== calibration.maxTravel.X || next.maxTravel.Y !== calibration.maxTravel.Y) {
+      setCalibration(next);
+    }
+
+    if (movementValidator.current) {
+      movementValidator.current = new MovementValidator(
+        PaperProfiles.movementBounds(paperProfile),
+        next,
+        simulationMode
+      );
+    }
+    if (pathExecutor.current && plotterRef.current) {
+      pathExecutor.current = new PathExecutor(
+        plotterRef.current,
+        next,
+        false,
+        50,
+        30,
+        movementValidator.current ?? undefined,
+        DEFAULT_MOTION_LIMITS,
+        PaperProfiles.penChangePosition(paperProfile)
+      );
+    }
+  }, [paperProfile, calibration, simulationMode]);
+
+  // The grid shows the sheet from its top-left corner
+  const gridPosition = PaperProfiles.fromMachine(paperProfile, { x: currentX, y: currentY });
+
   // Sequence handling functions
-  const handleLoadSequence = async (sequence: PlotterSequence) => {
-    if (isMoving || !plotterRef.current) {
+  // Resolves true once the whole sequence has been plotted
+  const handleLoadSequence = async (sequence: PlotterSequence): Promise<boolean> => {
+    const plotter = plotterRef.current;
+    const executor = pathExecutor.current;
+    if (isMoving || !plotter || !executor) {
       addNotification('Cannot execute sequence: System not ready', 'error');
-      return;
+      return false;
     }
   
     if (!sequence?.moves?.length) {
       addNotification('Cannot execute empty sequence', 'error');
-      return;
+      return false;
     }
+
+    // Follow the pen on the grid, and the executor through pauses and cancels
+    const unsubscribe = [
+      executor.onStateChange(setExecutionState),
+      plotter.on('position', position => {
+        setCurrentX(position.x);
+        setCurrentY(position.y);
+      }),
+      plotter.on('rotate', ({ port, degrees }) => {
+        if (port === 'C') {
+          setPenState(degrees < PEN_POSITIONS.DOWN / 2 ? 'down' : 'up');
+        }
+      })
+    ];
   
     try {
       setIsMoving(true);
@@ -359,55 +486,27 @@ export default function TestInterface() {
       setExecutionProgress(0);
       setPreviewSequence(sequence); // Set preview sequence for visualization
   
-      if (simulationMode) {
-        // Simulation mode execution
-        for (let i = 0; i < sequence.moves.length; i++) {
-          const move = sequence.moves[i];
-          setCurrentX(move.x);
-          setCurrentY(move.y);
-          if (move.z !== undefined) {
-            setPenState(move.z === 0 ? 'up' : 'down');
-          }
-          setExecutionProgress(((i + 1) / sequence.moves.length) * 100);
-          await new Promise(resolve => setTimeout(resolve, 200));
-        }
-      } else {
-        // Hardware mode execution
-        for (let i = 0; i < sequence.moves.length; i++) {
-          const move = sequence.moves[i];
-          
-          await executeCommand(async () => {
-            try {
-              // Handle pen movement if needed
-              if (move.z !== undefined) {
-                const position = move.z === 0 ? PEN_POSITIONS.UP : PEN_POSITIONS.DOWN;
-                await setPenPosition(position);
-              }
-  
-              // Move to position if changed
-              if (move.x !== currentX || move.y !== currentY) {
-                await moveToPosition(move.x, move.y);
-              }
-            } catch (error) {
-              throw new Error(`Move failed at step ${i + 1}: ${error}`);
-            }
-          });
-  
-          setExecutionProgress(((i + 1) / sequence.moves.length) * 100);
-        }
-  
-        // Ensure pen is up at end
-        await setPenPosition(PEN_POSITIONS.UP);
+      // One layer per pen, parked for a pen swap in between. Moves are
+      // drawn from the sheet's top-left, the plotter homes at the profile's origin.
+      const machine = PaperProfiles.toMachineSequence(paperProfile, sequence);
+      const completed = await executor.executeSequence(machine, setExecutionProgress, confirmPenChange);
+
+      if (!completed) {
+        addNotification(`Sequence "${sequence.name}" cancelled`, 'info');
+        return false;
       }
-  
+
       addNotification(`Sequence "${sequence.name}" completed successfully`, 'success');
+      return true;
     } catch (error) {
       console.error('Sequence execution error:', error);
       addNotification(`Sequence execution failed: ${error}`, 'error');
       if (!simulationMode) {
         await emergencyStop();
       }
+      return false;
     } finally {
+      unsubscribe.forEach(off => off());
       setIsMoving(false);
       setCurrentSequence(null);
       setExecutionProgress(0);
@@ -415,6 +514,30 @@ export default function TestInterface() {
     }
   };
 
+  // Pause, resume and cancel take effect at the end of the current move
+  const controlSequence = (action: 'pause' | 'resume' | 'cancel') => {
+    try {
+      pathExecutor.current?.[action]();
+    } catch (error) {
+      addNotification(`Cannot ${action} sequence: ${error}`, 'error');
+    }
+  };
+
+  // Plot a tiled drawing sheet by sheet, waiting for a fresh sheet in between
+  const handleLoadTiles = async (layout: TileLayout) => {
+    for (let i = 0; i < layout.tiles.length; i++) {
+      const tile = layout.tiles[i];
+
+      if (i > 0 && !await confirmSheetChange(tile, i, layout.tiles.length)) {
+        addNotification(`Stopped before sheet ${i + 1} of ${layout.tiles.length}`, 'info');
+        return;
+      }
+      if (!await handleLoadSequence(tile.sequence)) return;
+    }
+
+    addNotification(`All ${layout.tiles.length} sheets plotted`, 'success');
+  };
+
   const handlePreviewSequence = (sequence: PlotterSequence | null) => {
     if (!sequence) {
       setPreviewSequence(null);
@@ -423,9 +546,9 @@ export default function TestInterface() {
 
     // Validate sequence bounds before preview
     const { minX, maxX, minY, maxY } = sequence.boundingBox;
-    if (minX < MOVEMENT_BOUNDS.minX || maxX > MOVEMENT_BOUNDS.maxX ||
-        minY < MOVEMENT_BOUNDS.minY || maxY > MOVEMENT_BOUNDS.maxY) {
-      addNotification('Warning: Sequence exceeds movement bounds', 'info');
+    if (minX < printableArea.minX || maxX > printableArea.maxX ||
+        minY < printableArea.minY || maxY > printableArea.maxY) {
+      addNotification('Warning: Sequence exceeds the paper margins', 'info');
     }
 
     setPreviewSequence(sequence);
@@ -453,7 +576,13 @@ export default function TestInterface() {
     await moveToPosition(x, y);
   };
 
-  const plotterRef = useRef<PlotterControl>(new PlotterControl(simulationMode));
+  // Backends come from the driver registry; the mode only picks the kind
+  const createDriver = (simulated: boolean): PlotterDriver =>
+    DriverRegistry.create(DriverRegistry.defaultFor(simulated), {
+      calibration: convertCalibrationFormat(calibration)
+    });
+  const [initialDriver] = useState(() => createDriver(simulationMode));
+  const plotterRef = useRef<PlotterDriver>(initialDriver);
   const commandQueueRef = useRef<CommandQueue>(plotterRef.current.commandQueue);
 
   // Single unified initialization effect
@@ -472,10 +601,15 @@ export default function TestInterface() {
           return;
         }
 
+        // Swap drivers when the mode changes
+        if (plotterRef.current.capabilities.simulated !== simulationMode) {
+          await plotterRef.current.disconnect();
+          plotterRef.current = createDriver(simulationMode);
+        }
         const plotter = plotterRef.current;
 
         // Connect in hardware mode
-        if (!simulationMode) {
+        if (!plotter.capabilities.simulated) {
           await plotter.connect();
           setHub(plotter.hub);
           setStatus('Connected');
@@ -496,30 +630,36 @@ export default function TestInterface() {
           safetyController.current.startMonitoring();
           connectionMonitor.current.startMonitoring();
         } else {
+          await plotter.connect();
           setStatus('Simulation Mode');
           addNotification('Running in simulation mode', 'info');
         }
 
         // Initialize common systems
         movementValidator.current = new MovementValidator(
-          MOVEMENT_BOUNDS,
+          paperBounds,
           calibration,
           simulationMode
         );
 
+        // The simulator is a driver too, so sequences always run on the
+        // motors; the validator still relaxes the limits in simulation
         pathExecutor.current = new PathExecutor(
           plotter,
           calibration,
-          simulationMode,
+          false,
           50, // moveSpeed
-          30  // drawSpeed
+          30, // drawSpeed
+          movementValidator.current,
+          DEFAULT_MOTION_LIMITS,
+          PaperProfiles.penChangePosition(paperProfile)
         );
 
         // Initialize position if in hardware mode
-        if (!simulationMode && plotter.isConnected()) {
+        if (!plotter.capabilities.simulated && plotter.isConnected()) {
           // Verify all motors are attached
           const motors = ['A', 'B', 'C'];
-          const allMotorsReady = motors.every(port => plotter.motors[port]);
+          const allMotorsReady = motors.every(port => plotter.getMotorStatus(port).exists);
           
           if (!allMotorsReady) {
             throw new Error('Not all motors are attached');
@@ -641,7 +781,7 @@ export default function TestInterface() {
           await initializePosition();
           if (movementValidator.current) {
             movementValidator.current = new MovementValidator(
-              MOVEMENT_BOUNDS,
+              paperBounds,
               calibration,
               simulationMode
             );
@@ -739,31 +879,19 @@ export default function TestInterface() {
     await executeCommand(async () => {
       try {
         setIsMoving(true);
-        const deltaX = x - currentX;
-        const deltaY = y - currentY;
-        const degreesX = deltaX * calibration.degreesPerMM.X;
-        const degreesY = deltaY * calibration.degreesPerMM.Y;
+        const degreesX = x * calibration.degreesPerMM.X;
+        const degreesY = y * calibration.degreesPerMM.Y;
   
         // Update target positions
         updateMotorState('B', { targetPosition: degreesX, isMoving: true });
         updateMotorState('A', { targetPosition: degreesY, isMoving: true });
   
-        // Execute movement
-        await Promise.all([
-          plotterRef.current!.runMotor('B', degreesX >= 0 ? 'forward' : 'backward', motorStates.B.speed),
-          plotterRef.current!.runMotor('A', degreesY >= 0 ? 'forward' : 'backward', motorStates.A.speed)
-        ]);
-  
-        // Wait for movement using time approximation
-        const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
-        const moveTime = (distance / motorStates.B.speed) * 1000; // rough approximation
-        await new Promise(resolve => setTimeout(resolve, moveTime));
-  
-        // Stop motors
-        await Promise.all([
-          plotterRef.current!.stopMotor('B'),
-          plotterRef.current!.stopMotor('A')
-        ]);
+        if (simulationMode) {
+          await new Promise(resolve => setTimeout(resolve, 500));
+        } else {
+          // Closed-loop move on the encoders
+          await plotterRef.current!.moveTo(x, y);
+        }
   
         setCurrentX(x);
         setCurrentY(y);
@@ -923,6 +1051,11 @@ export default function TestInterface() {
     setCurrentSequence(null);
     setExecutionProgress(0);
     commandQueue.current.clear();
+
+    // Braking alone would leave a running sequence to start the next move
+    if (pathExecutor.current && pathExecutor.current.executionState !== 'idle') {
+      pathExecutor.current.cancel();
+    }
   
     try {
       await Promise.all(
@@ -1033,6 +1166,34 @@ export default function TestInterface() {
               <span className="text-green-500">Battery: {hub.batteryLevel}%</span>
             )}
           </div>
+          {executionState !== 'idle' && (
+            <div className="flex items-center gap-2">
+              <span className="text-gray-400">{EXECUTION_LABELS[executionState]}</span>
+              {executionState === 'paused' || executionState === 'pausing' ? (
+                <button
+                  onClick={() => controlSequence('resume')}
+                  className="px-4 py-2 rounded bg-green-600 hover:bg-green-700 text-white"
+                >
+                  Resume
+                </button>
+              ) : (
+                <button
+                  onClick={() => controlSequence('pause')}
+                  disabled={executionState !== 'running'}
+                  className="px-4 py-2 rounded bg-yellow-600 hover:bg-yellow-700 text-white disabled:opacity-50"
+                >
+                  Pause
+                </button>
+              )}
+              <button
+                onClick={() => controlSequence('cancel')}
+                disabled={executionState === 'cancelling'}
+                className="px-4 py-2 rounded bg-gray-600 hover:bg-gray-700 text-white disabled:opacity-50"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
           <button
             onClick={emergencyStop}
             className="px-6 py-3 bg-red-600 text-white rounded-lg hover:bg-red-700 
@@ -1073,10 +1234,11 @@ export default function TestInterface() {
                 isMoving={isMoving}
               />
               <CoordinateGrid
-                currentX={currentX}
-                currentY={currentY}
+                currentX={gridPosition.x}
+                currentY={gridPosition.y}
                 maxX={maxX}
                 maxY={maxY}
+                printableArea={printableArea}
                 onPositionClick={handlePositionClick}
                 previewSequence={previewSequence}
                 executionProgress={executionProgress}
@@ -1135,13 +1297,15 @@ export default function TestInterface() {
             <div className="bg-gray-800 rounded-lg p-4">
               <SequenceManager
                 onLoadSequence={handleLoadSequence}
+                onLoadTiles={handleLoadTiles}
                 onPreviewSequence={handlePreviewSequence}
                 isExecuting={isMoving}
-                drawingArea={{
-                  width: A5_SIZE.width,
-                  height: A5_SIZE.height
-                }}
+                drawingArea={PaperProfiles.drawingArea(paperProfile)}
+                printableArea={printableArea}
+                penChangePosition={PaperProfiles.fromMachine(paperProfile, PaperProfiles.penChangePosition(paperProfile))}
+                paperSize={PaperProfiles.size(paperProfile)}
                 addNotification={addNotification}
+                calibration={calibration}
               />
             </div>
 
@@ -1161,6 +1325,14 @@ export default function TestInterface() {
               />
             </div>
 
+            <div className="bg-gray-800 rounded-lg p-4">
+              <PaperSettings
+                profile={paperProfile}
+                onChange={handlePaperProfileChange}
+                disabled={isMoving}
+              />
+            </div>
+
             <div className="bg-gray-800 rounded-lg p-4">
               <CalibrationTool
                 onCalibrate={handleCalibration}
@@ -1171,9 +1343,10 @@ export default function TestInterface() {
                     Y: calibration.y
                   },
                   maxTravel: {
-                    X: MOVEMENT_BOUNDS.maxX,
-                    Y: MOVEMENT_BOUNDS.maxY
-                  }
+                    X: maxX,
+                    Y: maxY
+                  },
+                  backlash: calibration.backlash
                 }}
               />
             </div>
@@ -1184,6 +1357,7 @@ export default function TestInterface() {
                 currentX={currentX}
                 currentY={currentY}
                 calibration={calibration}
+                bounds={paperBounds}
                 onError={(message) => addNotification(message, 'error')}
               />
             </div>
@@ -1195,6 +1369,26 @@ export default function TestInterface() {
           notifications={notifications}
           onDismiss={dismissNotification}
         />
+
+        {penChange && (
+          <PenChangePrompt
+            pen={penChange.pen}
+            layer={penChange.layer}
+            layerCount={penChange.layerCount}
+            onConfirm={() => resolvePenChange(true)}
+            onCancel={() => resolvePenChange(false)}
+          />
+        )}
+
+        {sheetChange && (
+          <SheetChangePrompt
+            tile={sheetChange.tile}
+            sheet={sheetChange.sheet}
+            sheetCount={sheetChange.sheetCount}
+            onConfirm={() => resolveSheetChange(true)}
+            onCancel={() => resolveSheetChange(false)}
+          />
+        )}
       </div>
   );
 }
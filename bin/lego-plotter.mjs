@@ -0,0 +1,29 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI through tsx so it can be linked with npm link
+// or run with npx from the repository
+
+import { spawnSync } from 'child_process'
+import { createRequire } from 'module'
+import { dirname, join } from 'path'
+import { fileURLToPath } from 'url'
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..')
+const require = createRequire(import.meta.url)
+
+// Ctrl+C reaches the CLI too, which decides what to do with it
+process.on('SIGINT', () => {})
+
+const result = spawnSync(
+  process.execPath,
+  [require.resolve('tsx/cli'), join(root, 'cli', 'index.ts'), ...process.argv.slice(2)],
+  {
+    stdio: 'inherit',
+    env: { ...process.env, TSX_TSCONFIG_PATH: join(root, 'tsconfig.json') }
+  }
+)
+
+if (result.error) {
+  console.error(result.error.message)
+  process.exit(1)
+}
+process.exit(result.status ?? 1)
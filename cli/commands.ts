@@ -0,0 +1,357 @@
+// cli/commands.ts
+
+import { readFile, writeFile } from 'fs/promises'
+import { basename, extname } from 'path'
+import { createInterface } from 'readline'
+import WebSocket from 'ws'
+import { DEFAULT_CALIBRATION, DEFAULT_MOTION_LIMITS, PEN_POSITIONS, PenAssignment, PlotterMove, PlotterSequence, Point } from '@/lib/types'
+import { PathExecutor, PathProcessor } from '@/lib/pathUtils'
+import { MovementValidator } from '@/lib/MovementValidator'
+import { SimulatedPlotterControl } from '@/lib/plotter.simulation'
+import { SequenceFormat, SequenceLoader } from '@/lib/SequenceLoader'
+import { SequenceSchema } from '@/lib/SequenceSchema'
+import { SequenceExporter } from '@/lib/SequenceExporter'
+import { StrokeOptimizer } from '@/lib/StrokeOptimizer'
+import { Placement } from '@/lib/Placement'
+import { PaperProfile, PaperProfiles } from '@/lib/PaperProfile'
+import { PlotterProtocol, ServerMessage } from '@/lib/PlotterProtocol'
+import { PNGRenderer } from './png'
+
+export interface CliOptions {
+  input: string               // file name, or - for stdin
+  output?: string             // file name; stdout when missing
+  format?: SequenceFormat
+  tolerance?: number
+  paper: PaperProfile
+  scale: number               // PNG pixels per mm
+  speed: number               // how much faster than real time to simulate
+  server: string
+  yes: boolean                // confirm pen changes without asking
+  wait: boolean               // follow a submitted job until it finishes
+}
+
+// Resolves to the process exit code
+export type CliCommand = (options: CliOptions) => Promise<number>
+
+export const COMMANDS: Record<string, CliCommand> = {
+  convert,
+  optimize,
+  validate,
+  estimate,
+  simulate,
+  plot
+}
+
+// Any supported format to sequence JSON, placed on the page the way the
+// job API places uploads
+async function convert(options: CliOptions): Promise<number> {
+  const sequence = await loadSequence(options)
+  await writeOutput(options, SequenceSchema.serialize(sequence))
+  return 0
+}
+
+// Reorder strokes to cut pen-up travel
+async function optimize(options: CliOptions): Promise<number> {
+  const sequence = await loadSequence(options)
+  const result = StrokeOptimizer.optimize(sequence.moves)
+  console.error(
+    `${result.strokeCount} strokes, pen-up travel ${formatDistance(result.penUpBefore)} -> ${formatDistance(result.penUpAfter)}`
+  )
+
+  await writeOutput(options, SequenceSchema.serialize({
+    ...sequence,
+    moves: result.moves,
+    boundingBox: PathProcessor.calculateBoundingBox(result.moves),
+    estimatedTime: undefined,
+    totalDistance: undefined
+  }))
+  return 0
+}
+
+// Check every move against the plotter's limits on this paper, as the
+// hardware would before plotting
+async function validate(options: CliOptions): Promise<number> {
+  const sequence = PaperProfiles.toMachineSequence(options.paper, await loadSequence(options))
+  const validator = new MovementValidator(PaperProfiles.movementBounds(options.paper), simpleCalibration(options.paper))
+  const violations = validator.findViolations(sequence)
+
+  for (const violation of violations) {
+    console.log(violation.move === null ? violation.reason : `Move ${violation.move + 1}: ${violation.reason}`)
+  }
+  if (violations.length > 0) {
+    console.error(`${violations.length} problem${violations.length === 1 ? '' : 's'} in ${sequence.moves.length} moves`)
+    return 1
+  }
+  console.error(`${sequence.moves.length} moves OK`)
+  return 0
+}
+
+async function estimate(options: CliOptions): Promise<number> {
+  const sequence = PaperProfiles.toMachineSequence(options.paper, await loadSequence(options))
+  const calibration = PaperProfiles.calibration(options.paper, DEFAULT_CALIBRATION)
+  const executor = new PathExecutor(
+    new SimulatedPlotterControl(simpleCalibration(options.paper)),
+    calibration,
+    false,
+    50,
+    30,
+    undefined,
+    DEFAULT_MOTION_LIMITS,
+    PaperProfiles.penChangePosition(options.paper)
+  )
+  const result = executor.estimate(sequence)
+
+  console.log(`Moves:        ${sequence.moves.length}`)
+  console.log(`Time:         ${formatDuration(result.duration)}`)
+  console.log(`Drawing:      ${formatDistance(result.drawDistance)}`)
+  console.log(`Travel:       ${formatDistance(result.travelDistance)}`)
+  console.log(`Pen changes:  ${result.penChanges}`)
+  return 0
+}
+
+// Plot on the simulated plotter and render where its pen actually went
+async function simulate(options: CliOptions): Promise<number> {
+  const sequence = await loadSequence(options)
+  const machine = PaperProfiles.toMachineSequence(options.paper, sequence)
+  const calibration = PaperProfiles.calibration(options.paper, DEFAULT_CALIBRATION)
+  const simple = simpleCalibration(options.paper)
+  const driver = new SimulatedPlotterControl(simple, options.speed)
+
+  // Bounds are only enforced on real hardware; see the validate command
+  const validator = new MovementValidator(PaperProfiles.movementBounds(options.paper), simple, true)
+  const executor = new PathExecutor(
+    driver,
+    calibration,
+    false,
+    50,
+    30,
+    validator,
+    DEFAULT_MOTION_LIMITS,
+    PaperProfiles.penChangePosition(options.paper)
+  )
+
+  // Trace the pen while it is down, one stroke per lowering
+  const strokes: { pen: number, points: Point[] }[] = []
+  let pen: PenAssignment = PathProcessor.splitLayers(machine.moves, machine.pens)[0].pen
+  let active: Point[] | null = null
+  const unsubscribe = [
+    driver.on('rotate', ({ port, degrees }) => {
+      if (port !== 'C') return
+      const down = degrees < PEN_POSITIONS.DOWN / 2
+      if (down && !active) {
+        active = [driver.getPositionUpdate()]
+        strokes.push({ pen: pen.id, points: active })
+      } else if (!down) {
+        active = null
+      }
+    }),
+    driver.on('position', position => {
+      const last = active?.[active.length - 1]
+      if (active && (last?.x !== position.x || last?.y !== position.y)) {
+        active.push(position)
+      }
+    })
+  ]
+
+  const started = Date.now()
+  await driver.connect()
+  try {
+    await executor.executeSequence(machine, undefined, async next => {
+      console.error(`Pen change: ${next.name}`)
+      pen = next
+      return true
+    })
+  } finally {
+    unsubscribe.forEach(off => off())
+    await driver.disconnect()
+  }
+
+  const moves: PlotterMove[] = strokes.flatMap(stroke => PathProcessor.assignPen(
+    PathProcessor.polylinesToMoves([{
+      points: stroke.points.map(point => PaperProfiles.fromMachine(options.paper, point)),
+      closed: false
+    }]),
+    stroke.pen
+  ))
+  const drawn: PlotterSequence = {
+    ...sequence,
+    name: `${sequence.name} (simulated)`,
+    moves,
+    boundingBox: PathProcessor.calculateBoundingBox(moves),
+    paper: PaperProfiles.size(options.paper),
+    estimatedTime: undefined,
+    totalDistance: undefined
+  }
+  console.error(`Simulated ${sequence.moves.length} moves in ${formatDuration((Date.now() - started) / 1000)}`)
+
+  if (options.output && extname(options.output).toLowerCase() === '.png') {
+    await writeOutput(options, PNGRenderer.render(drawn, { scale: options.scale }))
+  } else {
+    await writeOutput(options, SequenceExporter.toSVG(drawn, { includeBoundingBox: false }))
+  }
+  return 0
+}
+
+// Submit to a running plotter server and follow the job
+async function plot(options: CliOptions): Promise<number> {
+  const sequence = PaperProfiles.toMachineSequence(options.paper, await loadSequence(options))
+  const socket = new WebSocket(options.server)
+  const send = (message: Parameters<typeof PlotterProtocol.encode>[0]) => socket.send(PlotterProtocol.encode(message))
+
+  return new Promise<number>((resolve, reject) => {
+    let jobId: string | null = null
+    let state: string | null = null
+    let progress = -1
+    let done = false
+    const finish = (code: number) => {
+      done = true
+      process.off('SIGINT', interrupt)
+      socket.close()
+      resolve(code)
+    }
+
+    // Ctrl+C cancels the job, which stops after its current move; a second
+    // one leaves it running
+    const interrupt = () => {
+      if (!jobId) return finish(130)
+      console.error(`Cancelling job ${jobId}, press Ctrl+C again to leave it running`)
+      send({ type: 'cancel', jobId })
+      process.off('SIGINT', interrupt)
+      process.once('SIGINT', () => finish(130))
+    }
+    process.on('SIGINT', interrupt)
+
+    socket.on('error', error => {
+      done = true
+      reject(new Error(`Could not reach ${options.server}: ${error.message}`))
+    })
+    socket.on('close', () => {
+      if (done) return
+      console.error(`Connection to ${options.server} closed`)
+      resolve(1)
+    })
+
+    socket.on('message', async data => {
+      const message = JSON.parse(data.toString()) as ServerMessage
+
+      switch (message.type) {
+        case 'hello':
+          send({ type: 'submit', requestId: 'submit', sequence: SequenceSchema.toDocument(sequence) })
+          break
+
+        case 'error':
+          console.error(message.message)
+          if (message.requestId === 'submit') finish(1)
+          break
+
+        case 'ok':
+          if (message.requestId === 'submit' && message.job) {
+            jobId = message.job.id
+            state = message.job.state
+            console.error(`Job ${jobId} ${state} on ${options.server}`)
+            if (!options.wait) {
+              console.log(jobId)
+              finish(0)
+            }
+          }
+          break
+
+        case 'job': {
+          const { job } = message
+          if (job.id !== jobId) break
+          if (job.state !== state) {
+            state = job.state
+            console.error(`Job ${job.id} ${job.state}${job.error ? `: ${job.error}` : ''}`)
+          }
+          const percent = Math.floor(job.progress / 10) * 10
+          if (job.state === 'running' && percent > progress) {
+            progress = percent
+            console.error(`${percent}%`)
+          }
+          if (job.state === 'completed') finish(0)
+          if (job.state === 'failed' || job.state === 'cancelled') finish(1)
+          break
+        }
+
+        case 'penChange':
+          if (message.jobId !== jobId) break
+          send({
+            type: 'penChange',
+            jobId: message.jobId,
+            confirm: options.yes || await confirm(
+              `Load ${message.pen.name} (layer ${message.layer + 1} of ${message.layerCount}) and press Enter, or type n to cancel: `
+            )
+          })
+          break
+      }
+    })
+  })
+}
+
+async function loadSequence(options: CliOptions): Promise<PlotterSequence> {
+  const text = options.input === '-' ? await readStdin() : await readFile(options.input, 'utf8')
+  const name = options.input === '-' ? 'stdin' : basename(options.input)
+  const loaded = SequenceLoader.load(text, name, {
+    format: options.format,
+    tolerance: options.tolerance,
+    calibration: PaperProfiles.calibration(options.paper, DEFAULT_CALIBRATION),
+    paper: PaperProfiles.size(options.paper)
+  })
+  for (const issue of loaded.issues) {
+    console.error(`${name}:${issue.line}: ${issue.message}`)
+  }
+
+  // Sequence files are already laid out; imported artwork is placed on
+  // the printable area
+  if (loaded.format === 'json') return loaded.sequence
+  const area = PaperProfiles.printableArea(options.paper)
+  return {
+    ...Placement.apply(loaded.sequence, area, Placement.defaultFor(loaded.sequence, area)),
+    paper: PaperProfiles.size(options.paper)
+  }
+}
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+async function writeOutput(options: CliOptions, data: string | Buffer): Promise<void> {
+  if (options.output) {
+    await writeFile(options.output, data)
+  } else {
+    process.stdout.write(data)
+  }
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const prompt = createInterface({ input: process.stdin, output: process.stderr })
+  try {
+    const answer = await new Promise<string>(resolve => prompt.question(question, resolve))
+    return !/^n/i.test(answer.trim())
+  } finally {
+    prompt.close()
+  }
+}
+
+function simpleCalibration(paper: PaperProfile) {
+  const { degreesPerMM } = PaperProfiles.calibration(paper, DEFAULT_CALIBRATION)
+  return { x: degreesPerMM.X, y: degreesPerMM.Y }
+}
+
+function formatDistance(mm: number): string {
+  return mm >= 1000 ? `${(mm / 1000).toFixed(2)} m` : `${mm.toFixed(1)} mm`
+}
+
+function formatDuration(seconds: number): string {
+  const total = Math.round(seconds)
+  const hours = Math.floor(total / 3600)
+  const minutes = Math.floor((total % 3600) / 60)
+  const rest = total % 60
+  if (hours > 0) return `${hours}h ${minutes}m ${rest}s`
+  if (minutes > 0) return `${minutes}m ${rest}s`
+  return `${rest}s`
+}
@@ -0,0 +1,132 @@
+// cli/index.ts
+//
+// Batch processing without the web UI:
+//   npx lego-plotter <command> <file> [options]
+
+import { DEFAULT_PAPER_PROFILE, PAPER_PRESETS, PaperPreset } from '@/lib/PaperProfile'
+import { DEFAULT_SERVER_PORT } from '@/lib/PlotterProtocol'
+import { SEQUENCE_FORMATS, SequenceFormat } from '@/lib/SequenceLoader'
+import { CliOptions, COMMANDS } from './commands'
+
+const USAGE = `Usage: lego-plotter <command> <file> [options]
+
+Commands:
+  convert <file>       SVG, G-code, HP-GL or DXF to sequence JSON
+  optimize <file>      reorder strokes to cut pen-up travel
+  validate <file>      check every move against the plotter's limits
+  estimate <file>      plotting time and distances
+  simulate <file>      plot on the simulator and render the result (-o out.svg or out.png)
+  plot <file>          submit to a running plotter server
+
+<file> is - to read standard input.
+
+Options:
+  -o, --output <file>  write here instead of standard output
+  --format <format>    input format (${SEQUENCE_FORMATS.join(', ')}); default from the name
+  --tolerance <mm>     curve flattening tolerance
+  --paper <size>       ${Object.keys(PAPER_PRESETS).join(', ')}; default ${DEFAULT_PAPER_PROFILE.preset}
+  --landscape          turn the paper sideways
+  --scale <px/mm>      PNG resolution; default 4
+  --speed <n>          run the simulator n times faster than the plotter; default 100
+  --server <url>       plotter server; default ws://localhost:${DEFAULT_SERVER_PORT}
+  --yes                confirm pen changes without asking
+  --no-wait            print the job id and exit once the job is submitted`
+
+function parseArgs(argv: string[]): { command: string, options: CliOptions } {
+  const positional: string[] = []
+  const options: Omit<CliOptions, 'input'> = {
+    paper: DEFAULT_PAPER_PROFILE,
+    scale: 4,
+    speed: 100,
+    server: `ws://localhost:${DEFAULT_SERVER_PORT}`,
+    yes: false,
+    wait: true
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    const value = () => {
+      const next = argv[++i]
+      if (next === undefined) throw new Error(`${flag} needs a value`)
+      return next
+    }
+    const positive = () => {
+      const number = Number(value())
+      if (!(number > 0) || !Number.isFinite(number)) throw new Error(`${flag} must be a positive number`)
+      return number
+    }
+
+    switch (flag) {
+      case '-o':
+      case '--output':
+        options.output = value()
+        break
+      case '--format': {
+        const format = value() as SequenceFormat
+        if (!SEQUENCE_FORMATS.includes(format)) {
+          throw new Error(`Unsupported format ${format}; expected one of ${SEQUENCE_FORMATS.join(', ')}`)
+        }
+        options.format = format
+        break
+      }
+      case '--tolerance':
+        options.tolerance = positive()
+        break
+      case '--paper': {
+        const preset = value() as PaperPreset
+        if (!(preset in PAPER_PRESETS)) throw new Error(`Unknown paper size ${preset}`)
+        options.paper = { ...options.paper, preset, ...PAPER_PRESETS[preset as Exclude<PaperPreset, 'custom'>] }
+        break
+      }
+      case '--landscape':
+        options.paper = { ...options.paper, orientation: 'landscape' }
+        break
+      case '--scale':
+        options.scale = positive()
+        break
+      case '--speed':
+        options.speed = positive()
+        break
+      case '--server':
+        options.server = value()
+        break
+      case '--yes':
+        options.yes = true
+        break
+      case '--no-wait':
+        options.wait = false
+        break
+      case '-h':
+      case '--help':
+        console.log(USAGE)
+        process.exit(0)
+      default:
+        if (flag.startsWith('-') && flag !== '-') throw new Error(`Unknown option ${flag}\n\n${USAGE}`)
+        positional.push(flag)
+    }
+  }
+
+  const [command, input, ...extra] = positional
+  if (!command) throw new Error(USAGE)
+  if (!(command in COMMANDS)) throw new Error(`Unknown command ${command}\n\n${USAGE}`)
+  if (!input) throw new Error(`${command} needs an input file\n\n${USAGE}`)
+  if (extra.length > 0) throw new Error(`Unexpected argument ${extra[0]}`)
+
+  return { command, options: { ...options, input } }
+}
+
+// Stop quietly when the reader goes away, as in `lego-plotter convert x.svg | head`
+process.stdout.on('error', (error: NodeJS.ErrnoException) => {
+  if (error.code !== 'EPIPE') throw error
+  process.exit(0)
+})
+
+async function main() {
+  const { command, options } = parseArgs(process.argv.slice(2))
+  process.exitCode = await COMMANDS[command](options)
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
@@ -0,0 +1,120 @@
+// cli/png.ts
+
+import { deflateSync } from 'zlib'
+import { MOVEMENT_BOUNDS, PlotterSequence, Point } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export interface PNGRenderOptions {
+  scale?: number          // pixels per mm
+  strokeWidth?: number    // mm, for pens without a width
+}
+
+const SIGNATURE = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10])
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+// Rasterizes a sequence onto a white sheet, one colour per pen. Enough for
+// previews without pulling in an image library.
+export class PNGRenderer {
+  static render(sequence: PlotterSequence, options: PNGRenderOptions = {}): Buffer {
+    const scale = options.scale ?? 4
+    const paper = sequence.paper ?? { width: MOVEMENT_BOUNDS.paperWidth, height: MOVEMENT_BOUNDS.paperHeight }
+    const width = Math.max(1, Math.round(paper.width * scale))
+    const height = Math.max(1, Math.round(paper.height * scale))
+    const pixels = Buffer.alloc(width * height * 3, 255)
+
+    for (const { pen, moves } of PathProcessor.splitLayers(sequence.moves, sequence.pens)) {
+      const color = this.parseColor(pen.color)
+      // At least half a pixel diagonal, so thin lines never fall between pixels
+      const radius = Math.max(Math.SQRT1_2, ((pen.width ?? options.strokeWidth ?? 0.5) * scale) / 2)
+
+      for (const stroke of PathProcessor.movesToPolylines(moves)) {
+        for (let i = 1; i < stroke.points.length; i++) {
+          this.drawLine(pixels, width, height, stroke.points[i - 1], stroke.points[i], scale, radius, color)
+        }
+      }
+    }
+
+    return this.encode(pixels, width, height)
+  }
+
+  // Stamp a round brush along the segment every half pixel
+  private static drawLine(
+    pixels: Buffer,
+    width: number,
+    height: number,
+    a: Point,
+    b: Point,
+    scale: number,
+    radius: number,
+    color: [number, number, number]
+  ) {
+    const steps = Math.max(1, Math.ceil(Math.hypot(b.x - a.x, b.y - a.y) * scale * 2))
+    const reach = Math.ceil(radius)
+
+    for (let step = 0; step <= steps; step++) {
+      const cx = (a.x + ((b.x - a.x) * step) / steps) * scale
+      const cy = (a.y + ((b.y - a.y) * step) / steps) * scale
+
+      for (let y = Math.floor(cy) - reach; y <= Math.ceil(cy) + reach; y++) {
+        if (y < 0 || y >= height) continue
+        for (let x = Math.floor(cx) - reach; x <= Math.ceil(cx) + reach; x++) {
+          if (x < 0 || x >= width) continue
+          if (Math.hypot(x + 0.5 - cx, y + 0.5 - cy) > radius) continue
+          pixels.set(color, (y * width + x) * 3)
+        }
+      }
+    }
+  }
+
+  private static parseColor(color: string | undefined): [number, number, number] {
+    const match = /^#([0-9a-f]{6})$/i.exec(color ?? '')
+    if (!match) return [0, 0, 0]
+    const value = parseInt(match[1], 16)
+    return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+  }
+
+  // 8-bit RGB, no filtering
+  private static encode(pixels: Buffer, width: number, height: number): Buffer {
+    const rows = Buffer.alloc((width * 3 + 1) * height)
+    for (let y = 0; y < height; y++) {
+      pixels.copy(rows, y * (width * 3 + 1) + 1, y * width * 3, (y + 1) * width * 3)
+    }
+
+    const header = Buffer.alloc(13)
+    header.writeUInt32BE(width, 0)
+    header.writeUInt32BE(height, 4)
+    header[8] = 8   // bit depth
+    header[9] = 2   // truecolour
+
+    return Buffer.concat([
+      SIGNATURE,
+      this.chunk('IHDR', header),
+      this.chunk('IDAT', deflateSync(rows)),
+      this.chunk('IEND', Buffer.alloc(0))
+    ])
+  }
+
+  private static chunk(type: string, data: Buffer): Buffer {
+    const body = Buffer.concat([Buffer.from(type, 'ascii'), data])
+    const length = Buffer.alloc(4)
+    length.writeUInt32BE(data.length)
+    const crc = Buffer.alloc(4)
+    crc.writeUInt32BE(this.crc32(body))
+    return Buffer.concat([length, body, crc])
+  }
+
+  private static crc32(data: Buffer): number {
+    let c = 0xffffffff
+    for (const byte of data) {
+      c = CRC_TABLE[(c ^ byte) & 255] ^ (c >>> 8)
+    }
+    return (c ^ 0xffffffff) >>> 0
+  }
+}
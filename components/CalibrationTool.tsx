@@ -1,5 +1,11 @@
 import React, { useState } from 'react'
-import { CalibrationSettings, DEFAULT_SETTINGS } from '@/lib/types'
+import { CalibrationSettings, DEFAULT_SETTINGS, PEN_POSITIONS } from '@/lib/types'
+import { MotorDevice } from '@/lib/PlotterDriver'
+
+// Backlash test pattern
+const BACKLASH_STROKE_MM = 20
+const BACKLASH_STEP_MM = 2
+const BACKLASH_PASSES = 3
 
 interface Props {
   onCalibrate: (settings: CalibrationSettings) => void;
@@ -17,6 +23,11 @@ export function CalibrationTool({ onCalibrate, hub, settings = DEFAULT_SETTINGS}
     X: settings.maxTravel.X,
     Y: settings.maxTravel.Y
   });
+  const [backlash, setBacklash] = useState({
+    X: settings.backlash?.X ?? 0,
+    Y: settings.backlash?.Y ?? 0
+  });
+  const [isPlottingPattern, setIsPlottingPattern] = useState(false)
 
   const testMotor = async (axis: 'X' | 'Y', degrees: number) => {
     if (!hub) {
@@ -37,6 +48,51 @@ export function CalibrationTool({ onCalibrate, hub, settings = DEFAULT_SETTINGS}
     }
   }
 
+  // Degrees per mm measured in steps 1 and 2, falling back to the current settings
+  const measuredDegreesPerMM = (axis: 'X' | 'Y') =>
+    measurements[axis].mm ? measurements[axis].degrees / measurements[axis].mm : settings.degreesPerMM[axis]
+
+  // Back-and-forth test pattern: each pass draws along the axis, steps
+  // across, and draws back to the start. Slack makes the return strokes
+  // stop short; the gap between stroke ends is the backlash.
+  const plotBacklashPattern = async (axis: 'X' | 'Y') => {
+    if (!hub) {
+      console.warn('Hub not connected');
+      return;
+    }
+
+    const along = hub.getDeviceAtPort(axis === 'X' ? 'B' : 'A')
+    const across = hub.getDeviceAtPort(axis === 'X' ? 'A' : 'B')
+    const pen = hub.getDeviceAtPort('C')
+    if (!along || !across || !pen) {
+      console.warn('Motors A, B and C are needed for the backlash pattern');
+      return;
+    }
+
+    const rotate = async (motor: MotorDevice, degrees: number, speed: number) => {
+      if (!motor.rotateByDegrees) throw new Error(`Motor ${motor.portName} cannot rotate by degrees`)
+      await motor.rotateByDegrees(Math.abs(degrees), degrees >= 0 ? speed : -speed)
+    }
+    const strokeDegrees = BACKLASH_STROKE_MM * measuredDegreesPerMM(axis)
+    const stepDegrees = BACKLASH_STEP_MM * measuredDegreesPerMM(axis === 'X' ? 'Y' : 'X')
+
+    setIsPlottingPattern(true)
+    try {
+      await rotate(pen, PEN_POSITIONS.DOWN, 30)
+      for (let pass = 0; pass < BACKLASH_PASSES; pass++) {
+        await rotate(along, strokeDegrees, 30)
+        await rotate(across, stepDegrees, 30)
+        await rotate(along, -strokeDegrees, 30)
+        await rotate(across, stepDegrees, 30)
+      }
+    } catch (error) {
+      console.error(`Error plotting ${axis} backlash pattern:`, error);
+    } finally {
+      await rotate(pen, PEN_POSITIONS.UP - PEN_POSITIONS.DOWN, 30).catch(() => {})
+      setIsPlottingPattern(false)
+    }
+  }
+
   const calculateCalibration = () => {
     const degreesPerMM = {
       X: measurements.X.degrees / measurements.X.mm,
@@ -45,7 +101,8 @@ export function CalibrationTool({ onCalibrate, hub, settings = DEFAULT_SETTINGS}
     
     onCalibrate({
       degreesPerMM,
-      maxTravel
+      maxTravel,
+      backlash
     })
     
     setStep(1) // Reset for next time
@@ -125,7 +182,49 @@ export function CalibrationTool({ onCalibrate, hub, settings = DEFAULT_SETTINGS}
 
       {step === 3 && (
         <div>
-          <h3 className="font-medium mb-2">Step 3: Maximum Travel</h3>
+          <h3 className="font-medium mb-2">Step 3: Backlash</h3>
+          <p className="text-sm mb-4">
+            Plot the back-and-forth pattern for each axis, then measure how far the
+            return strokes stop short of the outgoing ones in mm
+          </p>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            {(['X', 'Y'] as const).map(axis => (
+              <div key={axis}>
+                <button
+                  onClick={() => plotBacklashPattern(axis)}
+                  disabled={!hub || isPlottingPattern}
+                  className="w-full p-2 mb-2 bg-blue-500 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Plot {axis} Pattern
+                </button>
+                <label className="block text-sm">{axis} backlash (mm)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.05"
+                  value={backlash[axis]}
+                  className="border rounded p-2 w-full"
+                  onChange={(e) => setBacklash(prev => ({
+                    ...prev,
+                    [axis]: Math.max(0, Number(e.target.value))
+                  }))}
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={() => setStep(4)}
+            disabled={isPlottingPattern}
+            className="w-full p-2 bg-green-500 text-white rounded disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Next Step
+          </button>
+        </div>
+      )}
+
+      {step === 4 && (
+        <div>
+          <h3 className="font-medium mb-2">Step 4: Maximum Travel</h3>
           <p className="text-sm mb-4">
             Enter the maximum safe travel distance in mm for each axis
           </p>
@@ -169,6 +268,7 @@ export function CalibrationTool({ onCalibrate, hub, settings = DEFAULT_SETTINGS}
         <p>Y: {settings.degreesPerMM.Y.toFixed(2)}° per mm</p>
         <p>Max X: {settings.maxTravel.X}mm</p>
         <p>Max Y: {settings.maxTravel.Y}mm</p>
+        <p>Backlash: X {settings.backlash?.X ?? 0}mm, Y {settings.backlash?.Y ?? 0}mm</p>
       </div>
     </div>
   )
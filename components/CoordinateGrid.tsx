@@ -1,12 +1,16 @@
 // components/CoordinateGrid.tsx
-import React, { useEffect, useRef, useState, useCallback } from 'react'
-import type { PlotterSequence, PreviewPath, Position } from '@/lib/types'
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react'
+import type { BoundingBox, PlotterMove, PlotterSequence, PreviewPath, Point, Polyline, Position } from '@/lib/types'
+import { PEN_POSITIONS } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+import { TextRenderer, TextAlign } from '@/lib/TextRenderer'
 
 interface CoordinateGridProps {
   currentX: number;
   currentY: number;
   maxX: number;
   maxY: number;
+  printableArea?: BoundingBox;   // inside the paper margins
   onPositionClick: (x: number, y: number) => void;
   previewSequence: PlotterSequence | null;
   executionProgress: number;
@@ -23,6 +27,29 @@ interface CurrentPosition {
   y: number;
 }
 
+interface TextSettings {
+  text: string;
+  size: number;
+  letterSpacing: number;
+  lineHeight: number;
+  align: TextAlign;
+  angle: number;
+}
+
+type GridMode = 'draw' | 'plot' | 'text';
+
+// Text strokes become the same segments as freehand drawing
+const polylinesToPaths = (polylines: Polyline[]): PreviewPath[] =>
+  polylines.flatMap(polyline =>
+    polyline.points.slice(1).map((point, i) => ({
+      startX: polyline.points[i].x,
+      startY: polyline.points[i].y,
+      endX: point.x,
+      endY: point.y,
+      type: 'draw' as const
+    }))
+  );
+
 interface GridState {
   isDrawing: boolean;
   isPlotting: boolean;
@@ -35,6 +62,7 @@ export function CoordinateGrid({
   currentY,
   maxX,
   maxY,
+  printableArea,
   onPositionClick,
   previewSequence,
   executionProgress = 0,
@@ -69,7 +97,32 @@ export function CoordinateGrid({
     y: currentY 
   });
   
-  const [mode, setMode] = useState<'draw' | 'plot'>('draw');
+  const [mode, setMode] = useState<GridMode>('draw');
+
+  // Text tool
+  const [textOrigin, setTextOrigin] = useState<Point | null>(null);
+  const [textSettings, setTextSettings] = useState<TextSettings>({
+    text: '',
+    size: 8,
+    letterSpacing: 0,
+    lineHeight: 1.6,
+    align: 'left',
+    angle: 0
+  });
+
+  // Moves in the order the executor plots them: one pen layer after another
+  const previewLayers = useMemo(() => {
+    if (!previewSequence) return [];
+    return PathProcessor.splitLayers(previewSequence.moves, previewSequence.pens);
+  }, [previewSequence]);
+
+  const textPaths = useMemo(() => {
+    if (!textOrigin || !textSettings.text.trim() || !(textSettings.size > 0)) return [];
+    return polylinesToPaths(TextRenderer.render(textSettings.text, {
+      ...textSettings,
+      origin: textOrigin
+    }));
+  }, [textOrigin, textSettings]);
 
   // Synchronize position with plotter in plot mode
   useEffect(() => {
@@ -119,7 +172,7 @@ export function CoordinateGrid({
   }, [mode, currentX, currentY, setPreviewSequence, setDrawnSequence, allPaths]);
 
   // Mode switching handler
-  const handleModeSwitch = useCallback((newMode: 'draw' | 'plot') => {
+  const handleModeSwitch = useCallback((newMode: GridMode) => {
     // Don't reset everything, just update the necessary state
     setGridState(prev => ({
       ...prev,
@@ -337,27 +390,49 @@ export function CoordinateGrid({
       ctx.stroke();
     };
   
-    // Draw preview/plotting animation
-    const drawPreview = () => {
-      if (previewSequence && executionProgress > 0) {
-        const sequence = previewSequence.moves;
-        const currentMoveIndex = Math.floor((sequence.length * executionProgress) / 100);
-    
-        // Draw paths up to current position
+    // Draw the pen-down parts of the preview sequence, each layer in its
+    // pen's colour when the sequence names its pens
+    const drawSequence = (fallbackColor: string, count: number) => {
+      let previous: PlotterMove | null = null;
+      let penDown = false;
+      let remaining = count;
+      ctx.lineWidth = PATH_WIDTH;
+      ctx.lineCap = 'round';
+      ctx.lineJoin = 'round';
+
+      for (const layer of previewLayers) {
+        if (remaining <= 0) break;
         ctx.beginPath();
-        ctx.strokeStyle = colors.plotPath;
-        ctx.lineWidth = PATH_WIDTH;
-    
-        for (let i = 0; i < currentMoveIndex; i++) {
-          const move = sequence[i];
-          if (i === 0) {
-            ctx.moveTo(move.x, move.y);
-          } else {
+        ctx.strokeStyle = (previewSequence?.pens && layer.pen.color) || fallbackColor;
+
+        for (const move of layer.moves.slice(0, remaining)) {
+          if (typeof move.z === 'number') {
+            penDown = move.z !== PEN_POSITIONS.UP;
+          }
+          if (previous && (move.type === 'draw' || penDown)) {
+            ctx.moveTo(previous.x, previous.y);
             ctx.lineTo(move.x, move.y);
           }
+          previous = move;
         }
+
+        remaining -= layer.moves.length;
         ctx.stroke();
       }
+    };
+
+    // Draw preview/plotting animation
+    const drawPreview = () => {
+      if (previewSequence && executionProgress > 0) {
+        // Draw paths up to current position
+        const currentMoveIndex = Math.floor((previewSequence.moves.length * executionProgress) / 100);
+        drawSequence(colors.plotPath, currentMoveIndex);
+      }
+
+      // Whole sequence before it runs; drawn paths are already on screen
+      else if (previewSequence && !gridState.isPlotting && allPaths.length === 0) {
+        drawSequence(colors.previewPath, previewSequence.moves.length);
+      }
     
       // Handle regular preview animation
       else if (gridState.isPlotting && plotterSequenceRef.current.length > 0) {
@@ -426,6 +501,19 @@ export function CoordinateGrid({
       // Apply scaling for path drawing
       ctx.save();
       ctx.scale(2, 2);
+
+      // Paper margins
+      if (printableArea) {
+        const { minX, minY, maxX: right, maxY: bottom } = printableArea;
+        if (minX > 0 || minY > 0 || right < maxX || bottom < maxY) {
+          ctx.save();
+          ctx.strokeStyle = '#999';
+          ctx.lineWidth = 0.5;
+          ctx.setLineDash([2, 2]);
+          ctx.strokeRect(minX, minY, right - minX, bottom - minY);
+          ctx.restore();
+        }
+      }
   
       // Draw paths
       if (!gridState.isPlotting) {
@@ -435,6 +523,9 @@ export function CoordinateGrid({
         if (currentPath.length) {
           drawPaths(currentPath, { color: colors.currentPath, width: PATH_WIDTH });
         }
+        if (mode === 'text' && textPaths.length) {
+          drawPaths(textPaths, { color: colors.currentPath, width: PATH_WIDTH });
+        }
       }
   
       drawPreview();
@@ -447,6 +538,7 @@ export function CoordinateGrid({
   }, [
     maxX,
     maxY,
+    printableArea,
     mode,
     currentPosition,
     currentX,
@@ -454,8 +546,10 @@ export function CoordinateGrid({
     gridState,
     allPaths,
     currentPath,
+    textPaths,
     executionProgress,
     previewSequence,
+    previewLayers,
     plotterSequenceRef.current
   ]);
 
@@ -490,6 +584,26 @@ export function CoordinateGrid({
     }
   }, [mode, gridState.isPlotting, getPlotterCoordinates, onPositionClick]);
 
+  // Text tool: a click places the first baseline
+  const handleTextClick = useCallback((e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = getPlotterCoordinates(e);
+    if (point) setTextOrigin(point);
+  }, [getPlotterCoordinates]);
+
+  const updateTextSettings = useCallback((changes: Partial<TextSettings>) => {
+    setTextSettings(prev => ({ ...prev, ...changes }));
+  }, []);
+
+  const addText = useCallback(() => {
+    if (textPaths.length === 0) return;
+
+    const newPaths = [...allPaths, ...textPaths];
+    setAllPaths(newPaths);
+    onDrawingComplete(newPaths);
+    setTextSettings(prev => ({ ...prev, text: '' }));
+    setTextOrigin(null);
+  }, [textPaths, allPaths, onDrawingComplete]);
+
   // Plot handler
   const handlePlot = useCallback(() => {
     if (isCleaningUp.current || gridState.isPlotting || allPaths.length === 0) return;
@@ -572,6 +686,17 @@ export function CoordinateGrid({
             >
               Plot Mode
             </button>
+            <button
+              onClick={() => handleModeSwitch('text')}
+              disabled={isMoving || gridState.isPlotting}
+              className={`px-3 py-1 text-sm rounded transition-colors ${
+                mode === 'text' 
+                  ? 'bg-blue-500 text-white' 
+                  : 'bg-gray-200 text-gray-700'
+              } ${(isMoving || gridState.isPlotting) ? 'opacity-50 cursor-not-allowed' : ''}`}
+            >
+              Text
+            </button>
           </div>
 
           {/* Drawing status */}
@@ -581,6 +706,14 @@ export function CoordinateGrid({
             </span>
           )}
 
+          {mode === 'text' && (
+            <span className="text-sm text-gray-500">
+              {textOrigin
+                ? `Baseline at (${textOrigin.x}, ${textOrigin.y})`
+                : 'Click to place text'}
+            </span>
+          )}
+
           {/* Plot button */}
           {mode === 'plot' && allPaths.length > 0 && !gridState.isPlotting && (
             <button
@@ -610,12 +743,90 @@ export function CoordinateGrid({
         </div>
       </div>
 
+      {/* Text tool settings */}
+      {mode === 'text' && (
+        <div className="flex flex-wrap gap-3 items-end mb-4 text-sm">
+          <label className="flex flex-col">
+            Text
+            <textarea
+              value={textSettings.text}
+              onChange={e => updateTextSettings({ text: e.target.value })}
+              rows={2}
+              className="border rounded px-2 py-1 w-64"
+            />
+          </label>
+          <label className="flex flex-col">
+            Size (mm)
+            <input
+              type="number"
+              min={1}
+              step={0.5}
+              value={textSettings.size}
+              onChange={e => updateTextSettings({ size: Number(e.target.value) })}
+              className="border rounded px-2 py-1 w-20"
+            />
+          </label>
+          <label className="flex flex-col">
+            Spacing (mm)
+            <input
+              type="number"
+              step={0.5}
+              value={textSettings.letterSpacing}
+              onChange={e => updateTextSettings({ letterSpacing: Number(e.target.value) })}
+              className="border rounded px-2 py-1 w-20"
+            />
+          </label>
+          <label className="flex flex-col">
+            Line height
+            <input
+              type="number"
+              min={0.5}
+              step={0.1}
+              value={textSettings.lineHeight}
+              onChange={e => updateTextSettings({ lineHeight: Number(e.target.value) })}
+              className="border rounded px-2 py-1 w-20"
+            />
+          </label>
+          <label className="flex flex-col">
+            Align
+            <select
+              value={textSettings.align}
+              onChange={e => updateTextSettings({ align: e.target.value as TextAlign })}
+              className="border rounded px-2 py-1"
+            >
+              <option value="left">Left</option>
+              <option value="center">Center</option>
+              <option value="right">Right</option>
+            </select>
+          </label>
+          <label className="flex flex-col">
+            Angle (°)
+            <input
+              type="number"
+              step={5}
+              value={textSettings.angle}
+              onChange={e => updateTextSettings({ angle: Number(e.target.value) })}
+              className="border rounded px-2 py-1 w-20"
+            />
+          </label>
+          <button
+            onClick={addText}
+            disabled={textPaths.length === 0}
+            className={`px-3 py-1 text-sm rounded transition-colors text-white ${
+              textPaths.length === 0 ? 'bg-gray-400 cursor-not-allowed' : 'bg-green-500 hover:bg-green-600'
+            }`}
+          >
+            Add Text
+          </button>
+        </div>
+      )}
+
       {/* Canvas */}
       <canvas
         ref={canvasRef}
         width={maxX * 2}
         height={maxY * 2}
-        onClick={mode === 'plot' ? handleClick : undefined}
+        onClick={mode === 'plot' ? handleClick : mode === 'text' ? handleTextClick : undefined}
         onMouseDown={mode === 'draw' ? startDrawing : undefined}
         onMouseMove={mode === 'draw' ? continueDrawing : undefined}
         onMouseUp={mode === 'draw' ? finishDrawing : undefined}
@@ -623,13 +834,30 @@ export function CoordinateGrid({
         className={`border bg-white ${
           mode === 'draw' 
             ? 'cursor-crosshair' 
-            : gridState.isPlotting || isMoving 
+            : mode === 'text'
+              ? 'cursor-text'
+              : gridState.isPlotting || isMoving 
               ? 'cursor-not-allowed' 
               : 'cursor-pointer'
         }`}
         style={{ pointerEvents: gridState.isPlotting || isMoving ? 'none' : 'auto' }}
       />
 
+      {/* Pen layers of the preview */}
+      {previewLayers.length > 1 && (
+        <div className="flex flex-wrap gap-3 mt-2 text-sm text-gray-600">
+          {previewLayers.map((layer, index) => (
+            <span key={layer.pen.id} className="flex items-center gap-1">
+              <span
+                className="inline-block w-3 h-3 rounded-full border"
+                style={{ backgroundColor: layer.pen.color ?? '#000000' }}
+              />
+              {index + 1}. {layer.pen.name}
+            </span>
+          ))}
+        </div>
+      )}
+
       {/* Progress indicators */}
       {(executionProgress > 0 || gridState.plotProgress > 0) && (
         <div className="mt-2">
@@ -0,0 +1,147 @@
+// components/PaperSettings.tsx
+import { useState } from 'react'
+import {
+  OriginCorner,
+  PAPER_PRESETS,
+  PaperMargins,
+  PaperOrientation,
+  PaperPreset,
+  PaperProfile,
+  PaperProfiles
+} from '@/lib/PaperProfile'
+
+interface PaperSettingsProps {
+  profile: PaperProfile
+  onChange: (profile: PaperProfile) => void
+  disabled?: boolean
+}
+
+const ORIGIN_LABELS: Record<OriginCorner, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right'
+}
+
+export function PaperSettings({ profile, onChange, disabled = false }: PaperSettingsProps) {
+  // Edits stay local until they make a valid profile
+  const [draft, setDraft] = useState<PaperProfile | null>(null)
+  const current = draft ?? profile
+  const validation = PaperProfiles.validate(current)
+  const { width, height } = PaperProfiles.size(current)
+  const area = PaperProfiles.drawingArea(current)
+
+  const update = (changes: Partial<PaperProfile>) => {
+    const next = { ...current, ...changes }
+    if (PaperProfiles.validate(next).valid) {
+      setDraft(null)
+      onChange(next)
+    } else {
+      setDraft(next)
+    }
+  }
+
+  const selectPreset = (preset: PaperPreset) => {
+    // Custom paper starts from the size currently selected
+    const size = preset === 'custom' ? PaperProfiles.size({ ...current, orientation: 'portrait' }) : PAPER_PRESETS[preset]
+    update({ preset, width: size.width, height: size.height })
+  }
+
+  const setMargin = (side: keyof PaperMargins, value: number) =>
+    update({ margins: { ...current.margins, [side]: value } })
+
+  return (
+    <div className="space-y-3">
+      <h2 className="text-xl font-bold">Paper</h2>
+
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <label htmlFor="paper-preset">Size</label>
+        <select
+          id="paper-preset"
+          value={current.preset}
+          disabled={disabled}
+          onChange={(e) => selectPreset(e.target.value as PaperPreset)}
+          className="border rounded p-1 text-black"
+        >
+          {Object.keys(PAPER_PRESETS).map(preset => (
+            <option key={preset} value={preset}>{preset}</option>
+          ))}
+          <option value="custom">Custom</option>
+        </select>
+
+        {current.preset === 'custom' && (
+          <>
+            <label htmlFor="paper-width">Width (mm)</label>
+            <input
+              id="paper-width"
+              type="number"
+              min={1}
+              value={current.width}
+              disabled={disabled}
+              onChange={(e) => update({ width: Number(e.target.value) })}
+              className="border rounded p-1 text-black"
+            />
+            <label htmlFor="paper-height">Length (mm)</label>
+            <input
+              id="paper-height"
+              type="number"
+              min={1}
+              value={current.height}
+              disabled={disabled}
+              onChange={(e) => update({ height: Number(e.target.value) })}
+              className="border rounded p-1 text-black"
+            />
+          </>
+        )}
+
+        <label htmlFor="paper-orientation">Orientation</label>
+        <select
+          id="paper-orientation"
+          value={current.orientation}
+          disabled={disabled}
+          onChange={(e) => update({ orientation: e.target.value as PaperOrientation })}
+          className="border rounded p-1 text-black"
+        >
+          <option value="portrait">Portrait</option>
+          <option value="landscape">Landscape</option>
+        </select>
+
+        <label htmlFor="paper-origin">Home corner</label>
+        <select
+          id="paper-origin"
+          value={current.origin}
+          disabled={disabled}
+          onChange={(e) => update({ origin: e.target.value as OriginCorner })}
+          className="border rounded p-1 text-black"
+        >
+          {(Object.keys(ORIGIN_LABELS) as OriginCorner[]).map(origin => (
+            <option key={origin} value={origin}>{ORIGIN_LABELS[origin]}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-sm">
+        {(['top', 'right', 'bottom', 'left'] as const).map(side => (
+          <label key={side} className="flex flex-col capitalize">
+            {side} (mm)
+            <input
+              type="number"
+              min={0}
+              value={current.margins[side]}
+              disabled={disabled}
+              onChange={(e) => setMargin(side, Number(e.target.value))}
+              className="border rounded p-1 text-black"
+            />
+          </label>
+        ))}
+      </div>
+
+      <div className="text-sm text-gray-400">
+        Sheet {Math.round(width)}x{Math.round(height)}mm, drawing area {Math.round(area.width)}x{Math.round(area.height)}mm
+      </div>
+      {!validation.valid && (
+        <div className="text-sm text-red-500">{validation.reason}</div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+// components/PenChangePrompt.tsx
+import type { PenAssignment } from '@/lib/types'
+
+interface PenChangePromptProps {
+  pen: PenAssignment
+  layer: number        // counts from 0
+  layerCount: number
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+// Shown while the plotter waits at the pen change position
+export function PenChangePrompt({
+  pen,
+  layer,
+  layerCount,
+  onConfirm,
+  onCancel
+}: PenChangePromptProps) {
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50">
+      <div className="bg-white text-black rounded-lg shadow-lg p-6 max-w-sm space-y-4">
+        <h2 className="font-bold">Change pen</h2>
+        <p className="flex items-center gap-2">
+          <span
+            className="inline-block w-4 h-4 rounded-full border"
+            style={{ backgroundColor: pen.color ?? '#000000' }}
+          />
+          Load {pen.name}{pen.color ? ` (${pen.color})` : ''} for layer {layer + 1} of {layerCount}.
+        </p>
+        <p className="text-sm text-gray-600">
+          The pen is lifted and parked. Continue once the new pen is in place.
+        </p>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300"
+          >
+            Stop
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 rounded bg-green-500 hover:bg-green-600 text-white"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+// components/PlacementPanel.tsx
+import type { PlacementAlign, PlacementFit, PlacementTransform, PlotterSequence } from '@/lib/types'
+
+interface PlacementPanelProps {
+  placed: PlotterSequence | null    // null while the transform is invalid
+  transform: PlacementTransform
+  onChange: (transform: PlacementTransform) => void
+  onPlace: () => void
+  onCancel: () => void
+}
+
+const FIT_LABELS: Record<PlacementFit, string> = {
+  fit: 'Fit to page',
+  fill: 'Fill page (crop)',
+  actual: 'Actual size'
+}
+
+const ALIGN_LABELS: Record<PlacementAlign, string> = {
+  center: 'Centre',
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right'
+}
+
+// Size and position imported artwork; the grid previews every change
+export function PlacementPanel({ placed, transform, onChange, onPlace, onCancel }: PlacementPanelProps) {
+  const update = (changes: Partial<PlacementTransform>) => onChange({ ...transform, ...changes })
+  const box = placed?.boundingBox
+
+  return (
+    <div className="border rounded p-2 space-y-2 text-sm">
+      <div className="font-medium">Place {placed?.name ?? 'artwork'}</div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          aria-label="Size"
+          value={transform.fit}
+          onChange={(e) => update({ fit: e.target.value as PlacementFit })}
+          className="border rounded p-1 text-black"
+        >
+          {(Object.keys(FIT_LABELS) as PlacementFit[]).map(fit => (
+            <option key={fit} value={fit}>{FIT_LABELS[fit]}</option>
+          ))}
+        </select>
+        <select
+          aria-label="Alignment"
+          value={transform.align}
+          onChange={(e) => update({ align: e.target.value as PlacementAlign })}
+          className="border rounded p-1 text-black"
+        >
+          {(Object.keys(ALIGN_LABELS) as PlacementAlign[]).map(align => (
+            <option key={align} value={align}>{ALIGN_LABELS[align]}</option>
+          ))}
+        </select>
+        <label htmlFor="placement-scale">Scale (%)</label>
+        <input
+          id="placement-scale"
+          type="number"
+          min={1}
+          step={5}
+          value={Math.round(transform.scale * 1000) / 10}
+          onChange={(e) => update({ scale: Number(e.target.value) / 100 })}
+          className="border rounded p-1 w-20 text-black"
+        />
+        <label htmlFor="placement-rotation">Rotation (°)</label>
+        <input
+          id="placement-rotation"
+          type="number"
+          step={90}
+          value={transform.rotation}
+          onChange={(e) => update({ rotation: Number(e.target.value) })}
+          className="border rounded p-1 w-20 text-black"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={transform.mirrorX}
+            onChange={(e) => update({ mirrorX: e.target.checked })}
+          />
+          Mirror horizontally
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={transform.mirrorY}
+            onChange={(e) => update({ mirrorY: e.target.checked })}
+          />
+          Mirror vertically
+        </label>
+        <label htmlFor="placement-offset-x">Offset X (mm)</label>
+        <input
+          id="placement-offset-x"
+          type="number"
+          value={transform.offsetX}
+          onChange={(e) => update({ offsetX: Number(e.target.value) })}
+          className="border rounded p-1 w-20 text-black"
+        />
+        <label htmlFor="placement-offset-y">Y (mm)</label>
+        <input
+          id="placement-offset-y"
+          type="number"
+          value={transform.offsetY}
+          onChange={(e) => update({ offsetY: Number(e.target.value) })}
+          className="border rounded p-1 w-20 text-black"
+        />
+      </div>
+
+      <div className="flex items-center justify-between">
+        <span className="text-gray-500">
+          {box
+            ? `${Math.round(box.maxX - box.minX)}x${Math.round(box.maxY - box.minY)}mm at (${Math.round(box.minX)}, ${Math.round(box.minY)})`
+            : 'Scale must be greater than 0'}
+        </span>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 rounded bg-gray-200 hover:bg-gray-300 text-black"
+          >
+            Discard
+          </button>
+          <button
+            onClick={onPlace}
+            disabled={!placed}
+            className="px-3 py-1 rounded bg-blue-500 hover:bg-blue-600 text-white disabled:bg-gray-400"
+          >
+            Place
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 // components/PositionPresets.tsx
 import { useState } from 'react'
 import { MovementValidator } from '@/lib/MovementValidator'
-import { MOVEMENT_BOUNDS, CalibrationSettings, SimpleCalibration } from '@/lib/types'
+import { MOVEMENT_BOUNDS, CalibrationSettings, MovementValidatorConfig, SimpleCalibration } from '@/lib/types'
 
 interface Position {
   x: number;
@@ -14,6 +14,7 @@ interface PositionPresetsProps {
   currentX: number;
   currentY: number;
   calibration: CalibrationSettings & SimpleCalibration;
+  bounds?: MovementValidatorConfig;
   onError?: (message: string) => void;
 }
 
@@ -22,13 +23,14 @@ export function PositionPresets({
   currentX, 
   currentY,
   calibration,
+  bounds = MOVEMENT_BOUNDS,
   onError
 }: PositionPresetsProps) {
   const [presets, setPresets] = useState<Position[]>([])
   const [newPresetName, setNewPresetName] = useState('')
   
   // Create validator instance
-  const movementValidator = new MovementValidator(MOVEMENT_BOUNDS, calibration)
+  const movementValidator = new MovementValidator(bounds, calibration)
 
   const saveCurrentPosition = () => {
     if (!newPresetName) return
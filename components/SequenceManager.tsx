@@ -1,33 +1,135 @@
 // components/SequenceManager.tsx
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useMemo } from 'react'
 import { PathProcessor } from '@/lib/pathUtils'
 import { PathPlanner } from '@/lib/PathPlanner'
+import { PenMapping, SVGImporter } from '@/lib/SVGImporter'
+import { DEFAULT_HATCH_OPTIONS, HatchOptions } from '@/lib/HatchFill'
+import { StrokeOptimizer, StrokeOptimizationResult } from '@/lib/StrokeOptimizer'
+import { SequenceExporter } from '@/lib/SequenceExporter'
+import { SequenceSchema } from '@/lib/SequenceSchema'
+import { DEFAULT_TILE_OPTIONS, SheetTiler, TileLayout } from '@/lib/SheetTiler'
+import { Placement } from '@/lib/Placement'
+import { PlacementPanel } from '@/components/PlacementPanel'
+import { HPGLImporter } from '@/lib/HPGLImporter'
+import { DXFImporter } from '@/lib/DXFImporter'
+import { RasterMode, RasterVectorizer } from '@/lib/RasterVectorizer'
+import type { RasterWorkerRequest, RasterWorkerResponse } from '@/lib/raster.worker'
 import { 
-  MOVEMENT_BOUNDS,
-  PlotterMove,
-  PlotterSequence 
+  BoundingBox,
+  CalibrationSettings,
+  PaperSize,
+  PlacementTransform,
+  Point,
+  PlotterSequence,
+  DEFAULT_CURVE_TOLERANCE
 } from '@/lib/types'
 
 interface SequenceManagerProps {
   onLoadSequence: (sequence: PlotterSequence) => void;
-  onPreviewSequence: (sequence: PlotterSequence) => void;
+  onPreviewSequence: (sequence: PlotterSequence | null) => void;
+  onLoadTiles?: (layout: TileLayout) => void;
   isExecuting: boolean;
   drawingArea: {
     width: number;
     height: number;
   };
+  printableArea?: BoundingBox;   // where drawingArea sits on the sheet
+  penChangePosition?: Point;     // where exported G-code parks for pen swaps, on the sheet
+  paperSize?: PaperSize;         // the whole sheet, margins included
   addNotification: (message: string, type: 'error' | 'success' | 'info') => void;
+  calibration?: CalibrationSettings;
+}
+
+type ExportFormat = 'json' | 'gcode' | 'svg'
+
+// Photos are scaled down to this many pixels on their long side before vectorizing
+const MAX_RASTER_PIXELS = 800
+
+// Run the vectorizer off the main thread where workers are available
+function vectorizeImage(request: RasterWorkerRequest): Promise<PlotterSequence> {
+  if (typeof Worker === 'undefined') {
+    const result = RasterVectorizer.vectorize(request.image, request.options)
+    return Promise.resolve(RasterVectorizer.toSequence(result, request.name, request.options.mode))
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../lib/raster.worker.ts', import.meta.url))
+    worker.onmessage = (event: MessageEvent<RasterWorkerResponse>) => {
+      worker.terminate()
+      if ('error' in event.data) reject(new Error(event.data.error))
+      else resolve(event.data.sequence)
+    }
+    worker.onerror = (event) => {
+      worker.terminate()
+      reject(new Error(event.message))
+    }
+    worker.postMessage(request, [request.image.data.buffer])
+  })
 }
 
 export function SequenceManager({
   onLoadSequence,
   onPreviewSequence,
+  onLoadTiles,
   isExecuting,
   drawingArea,
-  addNotification
+  printableArea,
+  penChangePosition,
+  paperSize,
+  addNotification,
+  calibration
 }: SequenceManagerProps) {
   const [sequences, setSequences] = useState<PlotterSequence[]>([])
+  const [curveTolerance, setCurveTolerance] = useState(DEFAULT_CURVE_TOLERANCE)
+  const [optimizationStats, setOptimizationStats] = useState<Map<PlotterSequence, StrokeOptimizationResult>>(new Map())
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json')
+  const [exportTravel, setExportTravel] = useState(false)
+  const [rasterMode, setRasterMode] = useState<RasterMode>('hatch')
+  const [rasterWidth, setRasterWidth] = useState(100)
+  const [rasterDensity, setRasterDensity] = useState(1)
+  const [isVectorizing, setIsVectorizing] = useState(false)
+  const [hatchFills, setHatchFills] = useState(true)
+  const [removeHidden, setRemoveHidden] = useState(true)
+  const [penMapping, setPenMapping] = useState<PenMapping>('color')
+  const [tileOverlap, setTileOverlap] = useState(DEFAULT_TILE_OPTIONS.overlap)
+  const [tileMarks, setTileMarks] = useState(DEFAULT_TILE_OPTIONS.registrationMarks)
+  const [hatchOptions, setHatchOptions] = useState<Required<HatchOptions>>(DEFAULT_HATCH_OPTIONS)
+  const [placement, setPlacement] = useState<{ source: PlotterSequence, transform: PlacementTransform } | null>(null)
+
+  const area = useMemo(
+    () => printableArea ?? { minX: 0, minY: 0, maxX: drawingArea.width, maxY: drawingArea.height },
+    [printableArea, drawingArea.width, drawingArea.height]
+  )
+
+  // Imports go through the placement step before joining the list
+  const placeSequence = (source: PlotterSequence, transform: PlacementTransform): PlotterSequence | null =>
+    transform.scale > 0 ? Placement.apply(source, area, transform) : null
+
+  const updatePlacement = (source: PlotterSequence, transform: PlacementTransform) => {
+    setPlacement({ source, transform })
+    onPreviewSequence(placeSequence(source, transform))
+  }
+
+  const beginPlacement = useCallback((source: PlotterSequence) => {
+    const transform = Placement.defaultFor(source, area)
+    setPlacement({ source, transform })
+    onPreviewSequence(Placement.apply(source, area, transform))
+  }, [area, onPreviewSequence])
+
+  const confirmPlacement = () => {
+    if (!placement) return
+    const placed = placeSequence(placement.source, placement.transform)
+    if (!placed) return
+    setSequences(prev => [...prev, placed])
+    setPlacement(null)
+    onPreviewSequence(placed)
+  }
+
+  const discardPlacement = () => {
+    setPlacement(null)
+    onPreviewSequence(null)
+  }
 
   const handleSVGUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -35,40 +137,45 @@ export function SequenceManager({
 
     try {
       const text = await file.text()
-      const parser = new DOMParser()
-      const doc = parser.parseFromString(text, 'image/svg+xml')
-      const paths = doc.querySelectorAll('path')
-      
-      const moves: PlotterMove[] = []
-      paths.forEach(path => {
-        const d = path.getAttribute('d')
-        if (d) {
-          const pathMoves = PathPlanner.parseSVGPath(d)
-          moves.push(...pathMoves)
-        }
+
+      // Shapes, transforms and physical units are resolved to millimetres,
+      // so artwork keeps its real size instead of being fitted to the page
+      const imported = SVGImporter.import(text, {
+        tolerance: curveTolerance,
+        calibration,
+        hatch: hatchFills && hatchOptions,
+        removeHidden
       })
+      const sequence = SVGImporter.toSequence(imported, file.name, { pens: penMapping })
 
-      // Validate and scale moves
-    const scaledMoves = PathProcessor.validateAndScalePath(moves, {
-      width: MOVEMENT_BOUNDS.paperWidth,
-      height: MOVEMENT_BOUNDS.paperHeight
-    })
+      if (sequence.moves.length === 0) {
+        addNotification('SVG contains no drawable shapes', 'error')
+        return
+      }
 
-    // Optimize the scaled moves
-    const optimizedMoves = PathProcessor.optimizePlotterMoves(scaledMoves)
+      sequence.moves = PathProcessor.optimizePlotterMoves(sequence.moves)
+      sequence.boundingBox = PathProcessor.calculateBoundingBox(sequence.moves)
 
-    const sequence: PlotterSequence = {
-      name: file.name,
-      moves: optimizedMoves,
-      boundingBox: PathProcessor.calculateBoundingBox(optimizedMoves)
-    }
+      if (sequence.boundingBox.maxX - sequence.boundingBox.minX > drawingArea.width ||
+          sequence.boundingBox.maxY - sequence.boundingBox.minY > drawingArea.height) {
+        addNotification(
+          `${file.name} is ${Math.round(imported.width)}x${Math.round(imported.height)}mm, larger than the drawing area; ` +
+            'place it at actual size to plot it as tiles',
+          'info'
+        )
+      }
 
-    setSequences(prev => [...prev, sequence])
-    onPreviewSequence(sequence)
-  } catch (error) {
-    addNotification(`Error parsing SVG: ${error}`, 'error')
-  }
-}, [drawingArea, onPreviewSequence])
+      if (sequence.pens && sequence.pens.length > 1) {
+        addNotification(`${file.name} uses ${sequence.pens.length} pens; plotting pauses for each pen change`, 'info')
+      }
+
+      beginPlacement(sequence)
+    } catch (error) {
+      addNotification(`Error parsing SVG: ${error}`, 'error')
+    } finally {
+      e.target.value = ''
+    }
+  }, [drawingArea, curveTolerance, calibration, hatchFills, hatchOptions, removeHidden, penMapping, beginPlacement, addNotification])
 
   const handleSequenceUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -77,25 +184,201 @@ export function SequenceManager({
     try {
       const text = await file.text()
       const sequence = PathPlanner.loadSequence(text)
+      if (sequence.metadata?.migratedFrom !== undefined) {
+        addNotification(
+          `${file.name} was upgraded from sequence format version ${sequence.metadata.migratedFrom}`,
+          'info'
+        )
+      }
       setSequences(prev => [...prev, sequence])
       onPreviewSequence(sequence)
     } catch (error) {
       console.error('Error loading sequence:', error)
+      addNotification(error instanceof Error ? error.message : String(error), 'error')
+    } finally {
+      e.target.value = ''
+    }
+  }, [onPreviewSequence, addNotification])
+
+  const handleGCodeUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      const { sequence, issues } = PathPlanner.loadGCode(text, file.name, {
+        tolerance: curveTolerance,
+        calibration,
+        paperHeight: paperSize?.height
+      })
+
+      if (issues.length > 0) {
+        const listed = issues.slice(0, 3).map(issue => `line ${issue.line}: ${issue.message}`)
+        if (issues.length > listed.length) listed.push(`${issues.length - listed.length} more`)
+        addNotification(`Skipped unsupported G-code in ${file.name} (${listed.join('; ')})`, 'info')
+      }
+
+      beginPlacement(sequence)
+    } catch (error) {
+      addNotification(`Error parsing G-code: ${error}`, 'error')
+    } finally {
+      e.target.value = ''
+    }
+  }, [curveTolerance, calibration, paperSize, beginPlacement, addNotification])
+
+  const handleCADUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      const text = await file.text()
+      const isDXF = /\.dxf$/i.test(file.name)
+      const { layers, issues } = isDXF
+        ? DXFImporter.import(text, { tolerance: curveTolerance, calibration })
+        : HPGLImporter.import(text)
+      const sequence = isDXF
+        ? DXFImporter.toSequence({ layers, issues }, file.name)
+        : HPGLImporter.toSequence({ layers, issues }, file.name)
+
+      if (sequence.moves.length === 0) {
+        addNotification(`${file.name} contains no drawable entities`, 'error')
+        return
+      }
+
+      if (issues.length > 0) {
+        const listed = issues.slice(0, 3).map(issue => `line ${issue.line}: ${issue.message}`)
+        if (issues.length > listed.length) listed.push(`${issues.length - listed.length} more`)
+        addNotification(`Skipped unsupported content in ${file.name} (${listed.join('; ')})`, 'info')
+      }
+      if (layers.length > 1) {
+        addNotification(`${file.name} layers: ${layers.map(layer => layer.name).join(', ')}`, 'info')
+      }
+
+      sequence.moves = PathProcessor.optimizePlotterMoves(sequence.moves)
+      sequence.boundingBox = PathProcessor.calculateBoundingBox(sequence.moves)
+      beginPlacement(sequence)
+    } catch (error) {
+      addNotification(`Error parsing ${file.name}: ${error}`, 'error')
+    } finally {
+      e.target.value = ''
     }
-  }, [onPreviewSequence])
+  }, [curveTolerance, calibration, beginPlacement, addNotification])
+
+  const handleImageUpload = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setIsVectorizing(true)
+    try {
+      const bitmap = await createImageBitmap(file)
+      const scale = Math.min(1, MAX_RASTER_PIXELS / Math.max(bitmap.width, bitmap.height))
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(2, Math.round(bitmap.width * scale))
+      canvas.height = Math.max(2, Math.round(bitmap.height * scale))
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('Canvas is not available')
+      ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+      bitmap.close()
+
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height)
+      const sequence = await vectorizeImage({
+        name: file.name,
+        image: RasterVectorizer.toGray(pixels.data, canvas.width, canvas.height),
+        options: { mode: rasterMode, width: rasterWidth, density: rasterDensity }
+      })
+
+      if (sequence.moves.length === 0) {
+        addNotification(`${file.name} produced no lines; try a higher density`, 'error')
+        return
+      }
+
+      beginPlacement(sequence)
+    } catch (error) {
+      addNotification(`Error converting image: ${error instanceof Error ? error.message : error}`, 'error')
+    } finally {
+      setIsVectorizing(false)
+      e.target.value = ''
+    }
+  }, [rasterMode, rasterWidth, rasterDensity, beginPlacement, addNotification])
 
   const handleExecuteSequence = (sequence: PlotterSequence) => {
     onLoadSequence(sequence)
   }
 
-  const downloadSequence = (sequence: PlotterSequence) => {
-    const blob = new Blob([JSON.stringify(sequence, null, 2)], {
-      type: 'application/json'
+  // Drawings larger than the page are plotted as a poster of several sheets
+  const fitsPage = (sequence: PlotterSequence) =>
+    sequence.boundingBox.maxX - sequence.boundingBox.minX <= drawingArea.width &&
+    sequence.boundingBox.maxY - sequence.boundingBox.minY <= drawingArea.height
+
+  const handleTileSequence = (sequence: PlotterSequence) => {
+    if (!onLoadTiles) return
+    try {
+      const layout = SheetTiler.tile(sequence, {
+        sheetWidth: drawingArea.width,
+        sheetHeight: drawingArea.height,
+        overlap: tileOverlap,
+        registrationMarks: tileMarks,
+        margin: { x: printableArea?.minX ?? 0, y: printableArea?.minY ?? 0 },
+        paper: paperSize
+      })
+      addNotification(
+        `${sequence.name} split into ${layout.rows}x${layout.columns} sheets, ${layout.tiles.length} with drawing`,
+        'info'
+      )
+      onLoadTiles(layout)
+    } catch (error) {
+      addNotification(`Error tiling sequence: ${error instanceof Error ? error.message : error}`, 'error')
+    }
+  }
+
+  const cleanupSequence = (index: number) => {
+    const sequence = sequences[index]
+    const result = PathProcessor.cleanupMoves(sequence.moves)
+    const cleaned: PlotterSequence = {
+      ...sequence,
+      moves: result.moves,
+      boundingBox: PathProcessor.calculateBoundingBox(result.moves)
+    }
+
+    setSequences(prev => prev.map((s, i) => i === index ? cleaned : s))
+    addNotification(
+      `Cleaned up ${sequence.name}: ${result.duplicatesRemoved} duplicate, ` +
+      `${result.joinsRemoved} pen-lift and ${result.simplifyRemoved} redundant moves removed`,
+      'success'
+    )
+    onPreviewSequence(cleaned)
+  }
+
+  const optimizeSequence = (index: number) => {
+    const sequence = sequences[index]
+    const result = StrokeOptimizer.optimize(sequence.moves)
+    const optimized: PlotterSequence = {
+      ...sequence,
+      moves: result.moves,
+      boundingBox: PathProcessor.calculateBoundingBox(result.moves)
+    }
+
+    setSequences(prev => prev.map((s, i) => i === index ? optimized : s))
+    setOptimizationStats(prev => {
+      const next = new Map(prev)
+      next.delete(sequence)
+      next.set(optimized, result)
+      return next
     })
+    onPreviewSequence(optimized)
+  }
+
+  const downloadSequence = (sequence: PlotterSequence) => {
+    const [content, type, extension] =
+      exportFormat === 'gcode' ? [SequenceExporter.toGCode(sequence, { penChangePosition }), 'text/plain', 'gcode'] :
+      exportFormat === 'svg' ? [SequenceExporter.toSVG(sequence, { includeTravel: exportTravel }), 'image/svg+xml', 'svg'] :
+      [SequenceSchema.serialize(sequence), 'application/json', 'json']
+
+    const blob = new Blob([content], { type })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `${sequence.name}.json`
+    a.download = `${sequence.name.replace(/\.(svg|json|gcode|nc|ngc|gc|g|plt|hpgl|hpg|hgl|dxf)$/i, '')}.${extension}`
     document.body.appendChild(a)
     a.click()
     document.body.removeChild(a)
@@ -125,6 +408,40 @@ export function SequenceManager({
               Import SVG
             </label>
           </div>
+
+          <div>
+            <input
+              type="file"
+              accept=".gcode,.nc,.ngc,.gc,.g"
+              onChange={handleGCodeUpload}
+              className="hidden"
+              id="gcode-upload"
+            />
+            <label
+              htmlFor="gcode-upload"
+              className="cursor-pointer inline-block px-4 py-2 bg-blue-500 
+                       text-white rounded hover:bg-blue-600"
+            >
+              Import G-code
+            </label>
+          </div>
+
+          <div>
+            <input
+              type="file"
+              accept=".plt,.hpgl,.hpg,.hgl,.dxf"
+              onChange={handleCADUpload}
+              className="hidden"
+              id="cad-upload"
+            />
+            <label
+              htmlFor="cad-upload"
+              className="cursor-pointer inline-block px-4 py-2 bg-blue-500 
+                       text-white rounded hover:bg-blue-600"
+            >
+              Import HPGL/DXF
+            </label>
+          </div>
           
           <div>
             <input
@@ -144,6 +461,202 @@ export function SequenceManager({
           </div>
         </div>
 
+        {/* Raster image conversion */}
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div>
+            <input
+              type="file"
+              accept="image/png,image/jpeg"
+              onChange={handleImageUpload}
+              disabled={isVectorizing}
+              className="hidden"
+              id="image-upload"
+            />
+            <label
+              htmlFor="image-upload"
+              className={`cursor-pointer inline-block px-4 py-2 bg-blue-500 
+                       text-white rounded hover:bg-blue-600 ${isVectorizing ? 'opacity-50 pointer-events-none' : ''}`}
+            >
+              {isVectorizing ? 'Converting…' : 'Import Image'}
+            </label>
+          </div>
+          <select
+            value={rasterMode}
+            onChange={(e) => setRasterMode(e.target.value as RasterMode)}
+            className="border rounded p-1 text-black"
+          >
+            <option value="contour">Contours</option>
+            <option value="hatch">Hatching</option>
+            <option value="spiral">Spiral</option>
+            <option value="stipple">TSP stipple</option>
+          </select>
+          <label htmlFor="raster-width">Width (mm)</label>
+          <input
+            id="raster-width"
+            type="number"
+            min={10}
+            value={rasterWidth}
+            onChange={(e) => setRasterWidth(Number(e.target.value) || 100)}
+            className="border rounded p-1 w-20 text-black"
+          />
+          <label htmlFor="raster-density">
+            {rasterMode === 'stipple' ? 'Dots per mm²' : 'Lines per mm'}
+          </label>
+          <input
+            id="raster-density"
+            type="number"
+            min={0.05}
+            step={0.1}
+            value={rasterDensity}
+            onChange={(e) => setRasterDensity(Number(e.target.value) || 1)}
+            className="border rounded p-1 w-20 text-black"
+          />
+        </div>
+
+        {/* Import settings */}
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="curve-tolerance">Curve tolerance (mm)</label>
+          <input
+            id="curve-tolerance"
+            type="number"
+            min={0.01}
+            step={0.05}
+            value={curveTolerance}
+            onChange={(e) => setCurveTolerance(Number(e.target.value) || DEFAULT_CURVE_TOLERANCE)}
+            className="border rounded p-1 w-20 text-black"
+          />
+          <label htmlFor="export-format" className="ml-4">Download as</label>
+          <select
+            id="export-format"
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="border rounded p-1 text-black"
+          >
+            <option value="json">JSON</option>
+            <option value="gcode">G-code</option>
+            <option value="svg">SVG</option>
+          </select>
+          {exportFormat === 'svg' && (
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={exportTravel}
+                onChange={(e) => setExportTravel(e.target.checked)}
+              />
+              Pen-up travel layer
+            </label>
+          )}
+        </div>
+
+        {/* SVG fills: hatching and hidden lines */}
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="pen-mapping">Pens from</label>
+          <select
+            id="pen-mapping"
+            value={penMapping}
+            onChange={(e) => setPenMapping(e.target.value as PenMapping)}
+            className="border rounded p-1 text-black"
+          >
+            <option value="color">Stroke colour</option>
+            <option value="layer">Inkscape layer</option>
+            <option value="single">Single pen</option>
+          </select>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={removeHidden}
+              onChange={(e) => setRemoveHidden(e.target.checked)}
+            />
+            Remove hidden lines
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={hatchFills}
+              onChange={(e) => setHatchFills(e.target.checked)}
+            />
+            Hatch SVG fills
+          </label>
+          {hatchFills && (
+            <>
+              <label htmlFor="hatch-spacing" className="ml-2">Spacing (mm)</label>
+              <input
+                id="hatch-spacing"
+                type="number"
+                min={0.1}
+                step={0.1}
+                value={hatchOptions.spacing}
+                onChange={(e) => setHatchOptions(prev => ({
+                  ...prev,
+                  spacing: Number(e.target.value) || DEFAULT_HATCH_OPTIONS.spacing
+                }))}
+                className="border rounded p-1 w-20 text-black"
+              />
+              <label htmlFor="hatch-angle">Angle (°)</label>
+              <input
+                id="hatch-angle"
+                type="number"
+                step={15}
+                value={hatchOptions.angle}
+                onChange={(e) => setHatchOptions(prev => ({ ...prev, angle: Number(e.target.value) }))}
+                className="border rounded p-1 w-20 text-black"
+              />
+              <label htmlFor="hatch-inset">Inset (mm)</label>
+              <input
+                id="hatch-inset"
+                type="number"
+                min={0}
+                step={0.1}
+                value={hatchOptions.inset}
+                onChange={(e) => setHatchOptions(prev => ({ ...prev, inset: Math.max(0, Number(e.target.value)) }))}
+                className="border rounded p-1 w-20 text-black"
+              />
+              <label className="flex items-center gap-1">
+                <input
+                  type="checkbox"
+                  checked={hatchOptions.crossHatch}
+                  onChange={(e) => setHatchOptions(prev => ({ ...prev, crossHatch: e.target.checked }))}
+                />
+                Cross-hatch
+              </label>
+            </>
+          )}
+        </div>
+
+        {placement && (
+          <PlacementPanel
+            placed={placeSequence(placement.source, placement.transform)}
+            transform={placement.transform}
+            onChange={(transform) => updatePlacement(placement.source, transform)}
+            onPlace={confirmPlacement}
+            onCancel={discardPlacement}
+          />
+        )}
+
+        {/* Tiling: posters from several sheets */}
+        {onLoadTiles && (
+          <div className="flex items-center gap-2 text-sm">
+            <label htmlFor="tile-overlap">Sheet overlap (mm)</label>
+            <input
+              id="tile-overlap"
+              type="number"
+              min={0}
+              step={1}
+              value={tileOverlap}
+              onChange={(e) => setTileOverlap(Math.max(0, Number(e.target.value)))}
+              className="border rounded p-1 w-20 text-black"
+            />
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={tileMarks}
+                onChange={(e) => setTileMarks(e.target.checked)}
+              />
+              Registration marks
+            </label>
+          </div>
+        )}
+
         {/* Sequence list */}
         <div className="space-y-2">
           {sequences.map((sequence, index) => (
@@ -158,6 +671,12 @@ export function SequenceManager({
                   {Math.round((sequence.boundingBox.maxX - sequence.boundingBox.minX))}x
                   {Math.round((sequence.boundingBox.maxY - sequence.boundingBox.minY))}mm
                 </div>
+                {optimizationStats.has(sequence) && (
+                  <div className="text-sm text-green-600">
+                    Pen-up travel: {Math.round(optimizationStats.get(sequence)!.penUpBefore)}mm
+                    {' → '}{Math.round(optimizationStats.get(sequence)!.penUpAfter)}mm
+                  </div>
+                )}
               </div>
               
               <div className="flex gap-2">
@@ -167,6 +686,22 @@ export function SequenceManager({
                 >
                   Preview
                 </button>
+                <button
+                  onClick={() => cleanupSequence(index)}
+                  disabled={isExecuting}
+                  className="p-2 text-orange-500 hover:text-orange-600 
+                           disabled:text-gray-400"
+                >
+                  Clean up
+                </button>
+                <button
+                  onClick={() => optimizeSequence(index)}
+                  disabled={isExecuting}
+                  className="p-2 text-purple-500 hover:text-purple-600 
+                           disabled:text-gray-400"
+                >
+                  Optimize
+                </button>
                 <button
                   onClick={() => handleExecuteSequence(sequence)}
                   disabled={isExecuting}
@@ -175,6 +710,16 @@ export function SequenceManager({
                 >
                   Execute
                 </button>
+                {onLoadTiles && !fitsPage(sequence) && (
+                  <button
+                    onClick={() => handleTileSequence(sequence)}
+                    disabled={isExecuting}
+                    className="p-2 text-teal-500 hover:text-teal-600 
+                             disabled:text-gray-400"
+                  >
+                    Plot as tiles
+                  </button>
+                )}
                 <button
                   onClick={() => downloadSequence(sequence)}
                   className="p-2 text-gray-500 hover:text-gray-600"
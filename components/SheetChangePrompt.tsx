@@ -0,0 +1,47 @@
+// components/SheetChangePrompt.tsx
+import type { Tile } from '@/lib/SheetTiler'
+
+interface SheetChangePromptProps {
+  tile: Tile
+  sheet: number        // counts from 0
+  sheetCount: number
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+// Shown between the sheets of a tiled drawing
+export function SheetChangePrompt({
+  tile,
+  sheet,
+  sheetCount,
+  onConfirm,
+  onCancel
+}: SheetChangePromptProps) {
+  return (
+    <div className="fixed inset-0 flex items-center justify-center bg-black/60 z-50">
+      <div className="bg-white text-black rounded-lg shadow-lg p-6 max-w-sm space-y-4">
+        <h2 className="font-bold">Load next sheet</h2>
+        <p>
+          Sheet {sheet + 1} of {sheetCount} is next: row {tile.row + 1}, column {tile.column + 1}.
+        </p>
+        <p className="text-sm text-gray-600">
+          Put a fresh sheet in the plotter, aligned with the home corner. Continue once it is in place.
+        </p>
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 rounded bg-gray-200 hover:bg-gray-300"
+          >
+            Stop
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-4 py-2 rounded bg-green-500 hover:bg-green-600 text-white"
+          >
+            Continue
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,108 @@
+// lib/AffineTransform.ts
+
+import { Matrix, Point } from '@/lib/types'
+
+export class AffineTransform {
+  static identity(): Matrix {
+    return [1, 0, 0, 1, 0, 0]
+  }
+
+  static translate(tx: number, ty: number = 0): Matrix {
+    return [1, 0, 0, 1, tx, ty]
+  }
+
+  static scale(sx: number, sy: number = sx): Matrix {
+    return [sx, 0, 0, sy, 0, 0]
+  }
+
+  // Rotation in degrees, optionally around (cx, cy)
+  static rotate(degrees: number, cx: number = 0, cy: number = 0): Matrix {
+    const angle = degrees * Math.PI / 180
+    const cos = Math.cos(angle)
+    const sin = Math.sin(angle)
+    const rotation: Matrix = [cos, sin, -sin, cos, 0, 0]
+    if (cx === 0 && cy === 0) return rotation
+    return this.multiply(
+      this.translate(cx, cy),
+      this.multiply(rotation, this.translate(-cx, -cy))
+    )
+  }
+
+  static skewX(degrees: number): Matrix {
+    return [1, 0, Math.tan(degrees * Math.PI / 180), 1, 0, 0]
+  }
+
+  static skewY(degrees: number): Matrix {
+    return [1, Math.tan(degrees * Math.PI / 180), 0, 1, 0, 0]
+  }
+
+  // Returns m1 × m2, i.e. m2 is applied first
+  static multiply(m1: Matrix, m2: Matrix): Matrix {
+    const [a1, b1, c1, d1, e1, f1] = m1
+    const [a2, b2, c2, d2, e2, f2] = m2
+    return [
+      a1 * a2 + c1 * b2,
+      b1 * a2 + d1 * b2,
+      a1 * c2 + c1 * d2,
+      b1 * c2 + d1 * d2,
+      a1 * e2 + c1 * f2 + e1,
+      b1 * e2 + d1 * f2 + f1
+    ]
+  }
+
+  static apply(m: Matrix, point: Point): Point {
+    return {
+      x: m[0] * point.x + m[2] * point.y + m[4],
+      y: m[1] * point.x + m[3] * point.y + m[5]
+    }
+  }
+
+  // Average linear scale of the matrix, used to convert lengths between spaces
+  static scaleFactor(m: Matrix): number {
+    return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]))
+  }
+
+  // Parse an SVG transform attribute such as "translate(10 5) rotate(45)"
+  static parse(transform: string | null | undefined): Matrix {
+    let result = this.identity()
+    if (!transform) return result
+
+    const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(transform)) !== null) {
+      const args = match[2]
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number)
+
+      let step: Matrix
+      switch (match[1]) {
+        case 'matrix':
+          if (args.length !== 6) throw new Error(`Invalid transform: ${match[0]}`)
+          step = args as Matrix
+          break
+        case 'translate':
+          step = this.translate(args[0] ?? 0, args[1] ?? 0)
+          break
+        case 'scale':
+          step = this.scale(args[0] ?? 1, args[1] ?? args[0] ?? 1)
+          break
+        case 'rotate':
+          step = this.rotate(args[0] ?? 0, args[1] ?? 0, args[2] ?? 0)
+          break
+        case 'skewX':
+          step = this.skewX(args[0] ?? 0)
+          break
+        default:
+          step = this.skewY(args[0] ?? 0)
+      }
+
+      if (step.some(value => Number.isNaN(value))) {
+        throw new Error(`Invalid transform: ${match[0]}`)
+      }
+      result = this.multiply(result, step)
+    }
+
+    return result
+  }
+}
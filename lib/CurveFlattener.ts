@@ -0,0 +1,115 @@
+// lib/CurveFlattener.ts
+
+import { CalibrationSettings, Point, DEFAULT_CURVE_TOLERANCE } from '@/lib/types'
+
+// Guards against runaway subdivision on degenerate input
+const MAX_DEPTH = 16
+
+export class CurveFlattener {
+  // Chordal tolerance in mm, never finer than one motor degree on the
+  // coarsest axis since the plotter cannot resolve anything smaller
+  static resolveTolerance(
+    tolerance: number = DEFAULT_CURVE_TOLERANCE,
+    calibration?: CalibrationSettings
+  ): number {
+    const requested = tolerance > 0 ? tolerance : DEFAULT_CURVE_TOLERANCE
+    if (!calibration) return requested
+
+    const { X, Y } = calibration.degreesPerMM
+    if (!(X > 0) || !(Y > 0)) return requested
+    const resolution = 1 / Math.min(X, Y)
+    return Math.max(requested, resolution)
+  }
+
+  // Points along a cubic Bezier, excluding the start point.
+  // Subdivides until the control points lie within tolerance of the chord.
+  static cubic(p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number): Point[] {
+    const points: Point[] = []
+    this.subdivideCubic(p0, p1, p2, p3, tolerance, 0, points)
+    return points
+  }
+
+  // Points along a quadratic Bezier, excluding the start point
+  static quadratic(p0: Point, p1: Point, p2: Point, tolerance: number): Point[] {
+    // Degree elevation gives the equivalent cubic
+    const c1 = { x: p0.x + 2 / 3 * (p1.x - p0.x), y: p0.y + 2 / 3 * (p1.y - p0.y) }
+    const c2 = { x: p2.x + 2 / 3 * (p1.x - p2.x), y: p2.y + 2 / 3 * (p1.y - p2.y) }
+    return this.cubic(p0, c1, c2, p2, tolerance)
+  }
+
+  // Points along an elliptical arc given in center parameterization,
+  // excluding the start point. Angles in radians, rotation applied by phi.
+  static arc(
+    cx: number, cy: number,
+    rx: number, ry: number,
+    phi: number,
+    startAngle: number,
+    sweepAngle: number,
+    tolerance: number
+  ): Point[] {
+    const steps = this.arcSteps(Math.max(rx, ry), sweepAngle, tolerance)
+    const cosPhi = Math.cos(phi)
+    const sinPhi = Math.sin(phi)
+    const points: Point[] = []
+
+    for (let i = 1; i <= steps; i++) {
+      const theta = startAngle + sweepAngle * (i / steps)
+      points.push({
+        x: cx + rx * Math.cos(theta) * cosPhi - ry * Math.sin(theta) * sinPhi,
+        y: cy + rx * Math.cos(theta) * sinPhi + ry * Math.sin(theta) * cosPhi
+      })
+    }
+    return points
+  }
+
+  // Number of chords needed so the sagitta r(1 - cos(θ/2)) stays within tolerance
+  static arcSteps(radius: number, sweepAngle: number, tolerance: number): number {
+    if (radius <= tolerance) return 1
+    const maxStep = 2 * Math.acos(1 - tolerance / radius)
+    return Math.max(1, Math.ceil(Math.abs(sweepAngle) / maxStep))
+  }
+
+  private static subdivideCubic(
+    p0: Point, p1: Point, p2: Point, p3: Point,
+    tolerance: number,
+    depth: number,
+    points: Point[]
+  ) {
+    if (depth >= MAX_DEPTH || this.isFlat(p0, p1, p2, p3, tolerance)) {
+      points.push(p3)
+      return
+    }
+
+    // de Casteljau split at t = 0.5
+    const mid = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+    const p01 = mid(p0, p1)
+    const p12 = mid(p1, p2)
+    const p23 = mid(p2, p3)
+    const p012 = mid(p01, p12)
+    const p123 = mid(p12, p23)
+    const center = mid(p012, p123)
+
+    this.subdivideCubic(p0, p01, p012, center, tolerance, depth + 1, points)
+    this.subdivideCubic(center, p123, p23, p3, tolerance, depth + 1, points)
+  }
+
+  // The curve stays within the hull of its control points, so their distance
+  // from the chord bounds the flattening error
+  private static isFlat(p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number): boolean {
+    return this.distanceToSegment(p1, p0, p3) <= tolerance &&
+      this.distanceToSegment(p2, p0, p3) <= tolerance
+  }
+
+  private static distanceToSegment(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const lengthSquared = dx * dx + dy * dy
+    if (lengthSquared === 0) {
+      return Math.hypot(point.x - start.x, point.y - start.y)
+    }
+    const t = Math.max(0, Math.min(1,
+      ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared
+    ))
+    return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy))
+  }
+}
@@ -0,0 +1,415 @@
+// lib/DXFImporter.ts
+
+import {
+  CalibrationSettings,
+  ImportedLayer,
+  ImportIssue,
+  Point,
+  PlotterSequence
+} from '@/lib/types'
+import { CurveFlattener } from '@/lib/CurveFlattener'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export interface DXFImportOptions {
+  tolerance?: number                  // max curve flattening error in mm
+  calibration?: CalibrationSettings   // limits the tolerance to the plotter's resolution
+  flipY?: boolean                     // DXF is Y-up; mirror so it previews upright (default true)
+}
+
+export interface DXFImportResult {
+  layers: ImportedLayer[]   // in order of first use, named as in the file
+  issues: ImportIssue[]
+}
+
+interface GroupPair {
+  code: number
+  value: string
+  line: number
+}
+
+// One entity's group codes, with repeated codes kept in order
+interface DXFEntity {
+  type: string
+  line: number
+  pairs: GroupPair[]
+}
+
+// Millimetres per drawing unit for the $INSUNITS header variable
+const INSUNITS_TO_MM: Record<number, number> = {
+  0: 1,       // unitless, taken as mm
+  1: 25.4,    // inches
+  2: 304.8,   // feet
+  4: 1,
+  5: 10,
+  6: 1000,
+  8: 0.0000254,   // microinches
+  9: 0.0254,      // mils
+  10: 914.4,      // yards
+  13: 0.001,      // microns
+  14: 100         // decimetres
+}
+
+// Entities that carry no geometry to plot
+const IGNORED_ENTITIES = new Set(['POINT', 'ATTDEF', 'ATTRIB', 'VIEWPORT', 'DIMENSION', 'HATCH', 'SOLID'])
+
+// Recursion limit for adaptive spline sampling
+const MAX_SPLINE_DEPTH = 12
+
+export class DXFImporter {
+  // Reads LINE, LWPOLYLINE, POLYLINE, ARC, CIRCLE, ELLIPSE and SPLINE
+  // entities into polylines grouped by layer. Other entities are reported
+  // with their line number and skipped.
+  static import(text: string, options: DXFImportOptions = {}): DXFImportResult {
+    const tolerance = CurveFlattener.resolveTolerance(options.tolerance, options.calibration)
+    const pairs = this.readPairs(text)
+    const issues: ImportIssue[] = []
+    const layers = new Map<string, ImportedLayer>()
+
+    const scale = INSUNITS_TO_MM[this.headerUnits(pairs)] ?? 1
+    // Flatten in drawing units so the tolerance holds in mm after scaling
+    const unitTolerance = tolerance / scale
+
+    const addPolyline = (layerName: string, points: Point[], closed: boolean) => {
+      if (points.length < 2) return
+      let layer = layers.get(layerName)
+      if (!layer) {
+        layer = { name: layerName, polylines: [] }
+        layers.set(layerName, layer)
+      }
+      layer.polylines.push({
+        points: points.map(point => ({ x: point.x * scale, y: point.y * scale })),
+        closed
+      })
+    }
+
+    const entities = this.readEntities(pairs)
+    for (let i = 0; i < entities.length; i++) {
+      const entity = entities[i]
+      const layerName = this.value(entity, 8) ?? '0'
+
+      switch (entity.type) {
+        case 'LINE':
+          addPolyline(layerName, [
+            { x: this.number(entity, 10), y: this.number(entity, 20) },
+            { x: this.number(entity, 11), y: this.number(entity, 21) }
+          ], false)
+          break
+
+        case 'LWPOLYLINE': {
+          const vertices = this.lwPolylineVertices(entity)
+          const closed = (this.number(entity, 70) & 1) === 1
+          addPolyline(layerName, this.toOCS(entity, this.bulgePolyline(vertices, closed, unitTolerance)), closed)
+          break
+        }
+
+        case 'POLYLINE': {
+          // Vertices follow as separate entities up to SEQEND
+          const vertices: (Point & { bulge: number })[] = []
+          while (entities[i + 1] && entities[i + 1].type === 'VERTEX') {
+            i++
+            vertices.push({
+              x: this.number(entities[i], 10),
+              y: this.number(entities[i], 20),
+              bulge: this.number(entities[i], 42)
+            })
+          }
+          if (entities[i + 1]?.type === 'SEQEND') i++
+
+          const flags = this.number(entity, 70)
+          if (flags & (16 | 64)) {
+            issues.push({ line: entity.line, message: 'Unsupported POLYLINE mesh' })
+            break
+          }
+          const closed = (flags & 1) === 1
+          addPolyline(layerName, this.toOCS(entity, this.bulgePolyline(vertices, closed, unitTolerance)), closed)
+          break
+        }
+
+        case 'CIRCLE':
+        case 'ARC': {
+          const cx = this.number(entity, 10)
+          const cy = this.number(entity, 20)
+          const radius = this.number(entity, 40)
+          if (radius <= 0) break
+
+          const full = entity.type === 'CIRCLE'
+          const start = full ? 0 : this.number(entity, 50) * Math.PI / 180
+          let sweep = full ? 2 * Math.PI : this.number(entity, 51) * Math.PI / 180 - start
+          // Arcs always run counter-clockwise from start to end angle
+          if (!full && sweep <= 0) sweep += 2 * Math.PI
+
+          const points = [
+            { x: cx + radius * Math.cos(start), y: cy + radius * Math.sin(start) },
+            ...CurveFlattener.arc(cx, cy, radius, radius, 0, start, sweep, unitTolerance)
+          ]
+          addPolyline(layerName, this.toOCS(entity, points), full)
+          break
+        }
+
+        case 'ELLIPSE': {
+          const cx = this.number(entity, 10)
+          const cy = this.number(entity, 20)
+          const majorX = this.number(entity, 11)
+          const majorY = this.number(entity, 21)
+          const rx = Math.hypot(majorX, majorY)
+          const ry = rx * this.number(entity, 40, 1)
+          if (rx <= 0 || ry <= 0) break
+
+          const phi = Math.atan2(majorY, majorX)
+          const start = this.number(entity, 41, 0)
+          let sweep = this.number(entity, 42, 2 * Math.PI) - start
+          if (sweep <= 0) sweep += 2 * Math.PI
+          const full = Math.abs(sweep - 2 * Math.PI) < 1e-9
+
+          const cosPhi = Math.cos(phi)
+          const sinPhi = Math.sin(phi)
+          const points = [
+            {
+              x: cx + rx * Math.cos(start) * cosPhi - ry * Math.sin(start) * sinPhi,
+              y: cy + rx * Math.cos(start) * sinPhi + ry * Math.sin(start) * cosPhi
+            },
+            ...CurveFlattener.arc(cx, cy, rx, ry, phi, start, sweep, unitTolerance)
+          ]
+          addPolyline(layerName, this.toOCS(entity, points), full)
+          break
+        }
+
+        case 'SPLINE': {
+          const points = this.splinePoints(entity, unitTolerance)
+          if (!points) {
+            issues.push({ line: entity.line, message: 'SPLINE without usable control or fit points' })
+            break
+          }
+          addPolyline(layerName, points, (this.number(entity, 70) & 1) === 1)
+          break
+        }
+
+        case 'VERTEX':
+        case 'SEQEND':
+          break
+
+        default:
+          if (!IGNORED_ENTITIES.has(entity.type)) {
+            issues.push({ line: entity.line, message: `Unsupported entity ${entity.type}` })
+          }
+      }
+    }
+
+    // Mirror within the drawing's own extents so it keeps its position
+    const imported = [...layers.values()]
+    return { layers: options.flipY ?? true ? PathProcessor.flipY(imported) : imported, issues }
+  }
+
+  // One pen per layer, named after it
+  static toSequence(result: DXFImportResult, name: string): PlotterSequence {
+    return PathProcessor.layersToSequence(result.layers, name)
+  }
+
+  // Code/value pairs, two lines each
+  private static readPairs(text: string): GroupPair[] {
+    const lines = text.split(/\r?\n/)
+    const pairs: GroupPair[] = []
+    for (let i = 0; i + 1 < lines.length; i += 2) {
+      const code = parseInt(lines[i].trim(), 10)
+      if (Number.isNaN(code)) {
+        throw new Error(`Invalid DXF group code on line ${i + 1}`)
+      }
+      pairs.push({ code, value: lines[i + 1].trim(), line: i + 1 })
+    }
+    return pairs
+  }
+
+  private static headerUnits(pairs: GroupPair[]): number {
+    const index = pairs.findIndex(pair => pair.code === 9 && pair.value === '$INSUNITS')
+    return index === -1 ? 0 : parseInt(pairs[index + 1]?.value ?? '0', 10)
+  }
+
+  // Entities of the ENTITIES section. Blocks are not expanded.
+  private static readEntities(pairs: GroupPair[]): DXFEntity[] {
+    const entities: DXFEntity[] = []
+    let inEntities = false
+    let current: DXFEntity | null = null
+
+    for (let i = 0; i < pairs.length; i++) {
+      const pair = pairs[i]
+      if (pair.code !== 0) {
+        current?.pairs.push(pair)
+        continue
+      }
+
+      if (pair.value === 'SECTION') {
+        inEntities = pairs[i + 1]?.code === 2 && pairs[i + 1].value === 'ENTITIES'
+        current = null
+      } else if (pair.value === 'ENDSEC' || pair.value === 'EOF') {
+        inEntities = false
+        current = null
+      } else if (inEntities) {
+        current = { type: pair.value, line: pair.line, pairs: [] }
+        entities.push(current)
+      }
+    }
+
+    return entities
+  }
+
+  private static value(entity: DXFEntity, code: number): string | undefined {
+    return entity.pairs.find(pair => pair.code === code)?.value
+  }
+
+  private static number(entity: DXFEntity, code: number, fallback = 0): number {
+    const value = parseFloat(this.value(entity, code) ?? '')
+    return Number.isFinite(value) ? value : fallback
+  }
+
+  private static numbers(entity: DXFEntity, code: number): number[] {
+    return entity.pairs.filter(pair => pair.code === code).map(pair => parseFloat(pair.value))
+  }
+
+  // LWPOLYLINE stores vertices as repeated 10/20 codes, each optionally
+  // followed by a 42 bulge
+  private static lwPolylineVertices(entity: DXFEntity): (Point & { bulge: number })[] {
+    const vertices: (Point & { bulge: number })[] = []
+    for (const pair of entity.pairs) {
+      const last = vertices[vertices.length - 1]
+      if (pair.code === 10) vertices.push({ x: parseFloat(pair.value), y: 0, bulge: 0 })
+      else if (pair.code === 20 && last) last.y = parseFloat(pair.value)
+      else if (pair.code === 42 && last) last.bulge = parseFloat(pair.value)
+    }
+    return vertices
+  }
+
+  // A bulge is tan(θ/4) of the arc to the next vertex, positive counter-clockwise
+  private static bulgePolyline(
+    vertices: (Point & { bulge: number })[],
+    closed: boolean,
+    tolerance: number
+  ): Point[] {
+    if (vertices.length === 0) return []
+    const points: Point[] = [{ x: vertices[0].x, y: vertices[0].y }]
+    const count = closed ? vertices.length : vertices.length - 1
+
+    for (let i = 0; i < count; i++) {
+      const from = vertices[i]
+      const to = vertices[(i + 1) % vertices.length]
+      const chord = Math.hypot(to.x - from.x, to.y - from.y)
+
+      if (from.bulge === 0 || chord === 0) {
+        points.push({ x: to.x, y: to.y })
+        continue
+      }
+
+      const sweep = 4 * Math.atan(from.bulge)
+      const radius = chord / (2 * Math.abs(Math.sin(sweep / 2)))
+      // Distance from the chord midpoint to the centre, along the left normal
+      const offset = chord * (1 - from.bulge * from.bulge) / (4 * from.bulge)
+      const cx = (from.x + to.x) / 2 - offset * (to.y - from.y) / chord
+      const cy = (from.y + to.y) / 2 + offset * (to.x - from.x) / chord
+      const start = Math.atan2(from.y - cy, from.x - cx)
+
+      const arc = CurveFlattener.arc(cx, cy, radius, radius, 0, start, sweep, tolerance)
+      arc[arc.length - 1] = { x: to.x, y: to.y }
+      points.push(...arc)
+    }
+
+    return points
+  }
+
+  // Entities drawn with a flipped extrusion (210/220/230 = 0, 0, -1) are
+  // mirrored in X, as produced by mirroring in most CAD programs
+  private static toOCS(entity: DXFEntity, points: Point[]): Point[] {
+    return this.number(entity, 230, 1) < 0
+      ? points.map(point => ({ x: -point.x, y: point.y }))
+      : points
+  }
+
+  // Sample a NURBS curve from its control points and knots, or fall back to
+  // the fit points when the file only has those
+  private static splinePoints(entity: DXFEntity, tolerance: number): Point[] | null {
+    const degree = this.number(entity, 71, 3)
+    const knots = this.numbers(entity, 40)
+    const xs = this.numbers(entity, 10)
+    const ys = this.numbers(entity, 20)
+    const control = xs.map((x, i) => ({ x, y: ys[i] ?? 0 }))
+    const weights = this.numbers(entity, 41)
+
+    if (control.length <= degree || knots.length !== control.length + degree + 1) {
+      const fitX = this.numbers(entity, 11)
+      const fitY = this.numbers(entity, 21)
+      const fit = fitX.map((x, i) => ({ x, y: fitY[i] ?? 0 }))
+      return fit.length >= 2 ? fit : null
+    }
+
+    const evaluate = (t: number) => this.deBoor(degree, knots, control, weights, t)
+    const start = knots[degree]
+    const end = knots[knots.length - degree - 1]
+    const points: Point[] = [evaluate(start)]
+
+    // Split every knot span so features between knots are not skipped,
+    // then subdivide until the midpoint lies within tolerance of the chord
+    const subdivide = (t0: number, p0: Point, t1: number, p1: Point, depth: number) => {
+      const tm = (t0 + t1) / 2
+      const pm = evaluate(tm)
+      if (depth < MAX_SPLINE_DEPTH && this.chordDistance(pm, p0, p1) > tolerance) {
+        subdivide(t0, p0, tm, pm, depth + 1)
+        subdivide(tm, pm, t1, p1, depth + 1)
+      } else {
+        points.push(p1)
+      }
+    }
+
+    for (let k = degree; k < knots.length - degree - 1; k++) {
+      const t0 = knots[k]
+      const t1 = knots[k + 1]
+      if (t1 <= t0 || t0 < start || t1 > end) continue
+      // A quarter-span pre-split catches S-bends whose midpoint is on the chord
+      for (let q = 0; q < 4; q++) {
+        const a = t0 + (t1 - t0) * q / 4
+        const b = t0 + (t1 - t0) * (q + 1) / 4
+        subdivide(a, points[points.length - 1], b, evaluate(b), 0)
+      }
+    }
+
+    return points
+  }
+
+  private static deBoor(
+    degree: number,
+    knots: number[],
+    control: Point[],
+    weights: number[],
+    t: number
+  ): Point {
+    // Knot span containing t, clamped so the end of the curve is included
+    let span = degree
+    while (span < control.length - 1 && t >= knots[span + 1]) span++
+
+    const d = Array.from({ length: degree + 1 }, (_, j) => {
+      const point = control[span - degree + j]
+      const w = weights[span - degree + j] ?? 1
+      return { x: point.x * w, y: point.y * w, w }
+    })
+
+    for (let r = 1; r <= degree; r++) {
+      for (let j = degree; j >= r; j--) {
+        const i = span - degree + j
+        const denominator = knots[i + degree - r + 1] - knots[i]
+        const alpha = denominator === 0 ? 0 : (t - knots[i]) / denominator
+        d[j] = {
+          x: (1 - alpha) * d[j - 1].x + alpha * d[j].x,
+          y: (1 - alpha) * d[j - 1].y + alpha * d[j].y,
+          w: (1 - alpha) * d[j - 1].w + alpha * d[j].w
+        }
+      }
+    }
+
+    return { x: d[degree].x / d[degree].w, y: d[degree].y / d[degree].w }
+  }
+
+  private static chordDistance(point: Point, a: Point, b: Point): number {
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    const length = Math.hypot(dx, dy)
+    if (length === 0) return Math.hypot(point.x - a.x, point.y - a.y)
+    return Math.abs(dx * (a.y - point.y) - dy * (a.x - point.x)) / length
+  }
+}
@@ -0,0 +1,311 @@
+// lib/GCodeImporter.ts
+
+import { CalibrationSettings, ImportIssue, MOVEMENT_BOUNDS, Point, Polyline, PlotterSequence } from '@/lib/types'
+import { CurveFlattener } from '@/lib/CurveFlattener'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export interface GCodeImportOptions {
+  tolerance?: number                  // max arc flattening error in mm
+  calibration?: CalibrationSettings   // limits the tolerance to the plotter's resolution
+  penDownZ?: number                   // Z at or below this lowers the pen
+  flipY?: boolean                     // G-code is Y-up; mirror so it previews upright (default true)
+  paperHeight?: number                // mm; Y is measured up from this sheet's bottom edge, as SequenceExporter writes it
+}
+
+export interface GCodeImportResult {
+  sequence: PlotterSequence
+  issues: ImportIssue[]    // unsupported or malformed codes, skipped
+}
+
+interface Word {
+  letter: string
+  value: number
+  text: string
+}
+
+interface GCodeState {
+  position: Point
+  penDown: boolean
+  motion: number | null   // modal G0-G3
+  unitScale: number       // mm per unit
+  absolute: boolean
+  absoluteArcCenter: boolean
+}
+
+// Codes that are understood but do not affect the drawing
+const IGNORED_G = new Set([4, 17, 40, 49, 54, 64, 94])
+const IGNORED_M = new Set([0, 1, 6, 7, 8, 9, 17, 18, 84])
+const IGNORED_LETTERS = new Set(['F', 'S', 'N', 'P'])
+
+export class GCodeImporter {
+  // Interprets plotter-style G-code: G0/G1 lines, G2/G3 arcs (I/J or R),
+  // G20/G21 units, G90/G91 positioning, and pen lift by Z or M3/M5.
+  // Anything else is reported with its line number and skipped.
+  static import(text: string, name: string, options: GCodeImportOptions = {}): GCodeImportResult {
+    const tolerance = CurveFlattener.resolveTolerance(options.tolerance, options.calibration)
+    const penDownZ = options.penDownZ ?? 0
+    const issues: ImportIssue[] = []
+    const polylines: Polyline[] = []
+    let active: Polyline | null = null
+
+    const state: GCodeState = {
+      position: { x: 0, y: 0 },
+      penDown: false,
+      motion: null,
+      unitScale: 1,
+      absolute: true,
+      absoluteArcCenter: false
+    }
+
+    const setPen = (down: boolean) => {
+      if (down === state.penDown) return
+      state.penDown = down
+      active = null
+    }
+
+    const travel = (points: Point[]) => {
+      if (points.length === 0) return
+      if (state.penDown) {
+        if (!active) {
+          active = { points: [{ ...state.position }], closed: false }
+          polylines.push(active)
+        }
+        active.points.push(...points)
+      }
+      state.position = points[points.length - 1]
+    }
+
+    const lines = text.split(/\r?\n/)
+    for (let index = 0; index < lines.length; index++) {
+      const lineNumber = index + 1
+      const report = (message: string) => issues.push({ line: lineNumber, message })
+
+      const words = this.tokenize(lines[index], report)
+      if (words.length === 0) continue
+
+      let axisWords = false
+      let programEnd = false
+      let home = false
+
+      for (const word of words) {
+        switch (word.letter) {
+          case 'G':
+            if (word.value >= 0 && word.value <= 3 && Number.isInteger(word.value)) {
+              state.motion = word.value
+            } else if (word.value === 20) {
+              state.unitScale = 25.4
+            } else if (word.value === 21) {
+              state.unitScale = 1
+            } else if (word.value === 90) {
+              state.absolute = true
+            } else if (word.value === 91) {
+              state.absolute = false
+            } else if (word.value === 90.1) {
+              state.absoluteArcCenter = true
+            } else if (word.value === 91.1) {
+              state.absoluteArcCenter = false
+            } else if (word.value === 28) {
+              home = true
+            } else if (!IGNORED_G.has(word.value)) {
+              report(`Unsupported command ${word.text}`)
+            }
+            break
+
+          case 'M':
+            if (word.value === 3 || word.value === 4) {
+              setPen(true)
+            } else if (word.value === 5) {
+              setPen(false)
+            } else if (word.value === 2 || word.value === 30) {
+              programEnd = true
+            } else if (!IGNORED_M.has(word.value)) {
+              report(`Unsupported command ${word.text}`)
+            }
+            break
+
+          case 'X':
+          case 'Y':
+          case 'I':
+          case 'J':
+          case 'R':
+            axisWords = true
+            break
+
+          case 'Z': {
+            const z = word.value * state.unitScale
+            if (state.absolute) {
+              setPen(z <= penDownZ)
+            } else if (z !== 0) {
+              // Relative Z: the sign says which way the pen went
+              setPen(z < 0)
+            }
+            break
+          }
+
+          default:
+            if (!IGNORED_LETTERS.has(word.letter)) {
+              report(`Unsupported word ${word.text}`)
+            }
+        }
+      }
+
+      if (home) {
+        // G28 returns to the origin with the pen lifted
+        setPen(false)
+        travel([{ x: 0, y: 0 }])
+      } else if (axisWords) {
+        this.executeMotion(words, state, tolerance, travel, report)
+      }
+
+      if (programEnd) break
+    }
+
+    const drawn = polylines
+      .filter(polyline => polyline.points.length > 1)
+      .map(polyline => {
+        const first = polyline.points[0]
+        const last = polyline.points[polyline.points.length - 1]
+        return { ...polyline, closed: first.x === last.x && first.y === last.y }
+      })
+    // Mirror about the sheet, so exported G-code comes back where it was
+    const height = options.paperHeight ?? MOVEMENT_BOUNDS.paperHeight
+    const moves = PathProcessor.polylinesToMoves(options.flipY ?? true
+      ? drawn.map(polyline => ({ ...polyline, points: polyline.points.map(point => ({ x: point.x, y: height - point.y })) }))
+      : drawn
+    )
+
+    return {
+      sequence: {
+        name,
+        moves,
+        boundingBox: PathProcessor.calculateBoundingBox(moves)
+      },
+      issues
+    }
+  }
+
+  // Words on one line with comments and checksums removed
+  private static tokenize(line: string, report: (message: string) => void): Word[] {
+    const code = line
+      .replace(/\([^)]*\)/g, ' ')
+      .replace(/;.*$/, '')
+      .replace(/\*\d+\s*$/, '')
+      .trim()
+      .toUpperCase()
+    if (code === '' || code === '%') return []
+
+    const words: Word[] = []
+    const pattern = /([A-Z])\s*([+-]?(?:\d+\.?\d*|\.\d+))/g
+    let consumed = 0
+    let match: RegExpExecArray | null
+
+    while ((match = pattern.exec(code)) !== null) {
+      if (code.slice(consumed, match.index).trim() !== '') {
+        report(`Could not parse "${code.slice(consumed, match.index).trim()}"`)
+      }
+      consumed = match.index + match[0].length
+      words.push({ letter: match[1], value: Number(match[2]), text: `${match[1]}${match[2]}` })
+    }
+    if (code.slice(consumed).trim() !== '') {
+      report(`Could not parse "${code.slice(consumed).trim()}"`)
+    }
+
+    return words
+  }
+
+  private static executeMotion(
+    words: Word[],
+    state: GCodeState,
+    tolerance: number,
+    travel: (points: Point[]) => void,
+    report: (message: string) => void
+  ) {
+    const value = (letter: string) => {
+      const word = words.find(w => w.letter === letter)
+      return word ? word.value * state.unitScale : undefined
+    }
+
+    if (state.motion === null) {
+      report('Coordinates given before any motion command')
+      return
+    }
+
+    const x = value('X')
+    const y = value('Y')
+    const start = state.position
+    const end = {
+      x: x === undefined ? start.x : state.absolute ? x : start.x + x,
+      y: y === undefined ? start.y : state.absolute ? y : start.y + y
+    }
+
+    if (state.motion === 0 || state.motion === 1) {
+      if (end.x !== start.x || end.y !== start.y) travel([end])
+      return
+    }
+
+    const clockwise = state.motion === 2
+    const center = this.arcCenter(start, end, clockwise, value('I'), value('J'), value('R'), state, report)
+    if (!center) {
+      travel([end])
+      return
+    }
+
+    const radius = Math.hypot(start.x - center.x, start.y - center.y)
+    const startAngle = Math.atan2(start.y - center.y, start.x - center.x)
+    const endAngle = Math.atan2(end.y - center.y, end.x - center.x)
+    let sweep = endAngle - startAngle
+    if (clockwise && sweep >= -1e-9) sweep -= 2 * Math.PI
+    if (!clockwise && sweep <= 1e-9) sweep += 2 * Math.PI
+
+    const points = CurveFlattener.arc(center.x, center.y, radius, radius, 0, startAngle, sweep, tolerance)
+    // Land exactly on the programmed end point
+    points[points.length - 1] = end
+    travel(points)
+  }
+
+  private static arcCenter(
+    start: Point,
+    end: Point,
+    clockwise: boolean,
+    i: number | undefined,
+    j: number | undefined,
+    r: number | undefined,
+    state: GCodeState,
+    report: (message: string) => void
+  ): Point | null {
+    if (i !== undefined || j !== undefined) {
+      return state.absoluteArcCenter
+        ? { x: i ?? start.x, y: j ?? start.y }
+        : { x: start.x + (i ?? 0), y: start.y + (j ?? 0) }
+    }
+
+    if (r === undefined) {
+      report('Arc without I/J or R, drawn as a line')
+      return null
+    }
+
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const chord = Math.hypot(dx, dy)
+    if (chord === 0) {
+      report('Arc by radius needs distinct end points, drawn as a line')
+      return null
+    }
+
+    const radius = Math.abs(r)
+    const half = chord / 2
+    if (radius < half - 1e-6) {
+      report(`Arc radius ${radius.toFixed(3)}mm is shorter than half the chord, drawn as a line`)
+      return null
+    }
+
+    // Centre lies on the chord's perpendicular bisector; a negative R
+    // selects the arc longer than a semicircle
+    const h = Math.sqrt(Math.max(0, radius * radius - half * half))
+    const side = (clockwise ? -1 : 1) * (r < 0 ? -1 : 1)
+    return {
+      x: start.x + dx / 2 - side * h * dy / chord,
+      y: start.y + dy / 2 + side * h * dx / chord
+    }
+  }
+}
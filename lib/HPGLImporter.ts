@@ -0,0 +1,142 @@
+// lib/HPGLImporter.ts
+
+import { ImportedLayer, ImportIssue, Point, Polyline, PlotterSequence } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export interface HPGLImportOptions {
+  flipY?: boolean     // HP-GL is Y-up; mirror so it previews upright (default true)
+}
+
+export interface HPGLImportResult {
+  layers: ImportedLayer[]   // one per selected pen, in order of first use
+  issues: ImportIssue[]
+}
+
+// HP-GL plotter units per millimetre
+const UNITS_PER_MM = 40
+
+// Understood but without effect on the drawing
+const IGNORED_COMMANDS = new Set(['DF', 'VS', 'FS', 'PT', 'LT', 'CS', 'CA', 'DT', 'SI', 'SR', 'DI', 'DR'])
+
+export class HPGLImporter {
+  // Interprets the HP-GL subset used by pen plotters: IN, SP, PU, PD, PA
+  // and PR. Other instructions are reported with their line and skipped.
+  static import(text: string, options: HPGLImportOptions = {}): HPGLImportResult {
+    const issues: ImportIssue[] = []
+    const layers = new Map<number, ImportedLayer>()
+    let pen = 1
+    let penDown = false
+    let absolute = true
+    let position: Point = { x: 0, y: 0 }
+    let active: Polyline | null = null
+
+    // Commands are visited in order, so line numbers can be counted as we go
+    let lineNumber = 1
+    let scanned = 0
+    const lineAt = (offset: number) => {
+      for (; scanned < offset; scanned++) {
+        if (text.charCodeAt(scanned) === 10) lineNumber++
+      }
+      return lineNumber
+    }
+
+    const moveTo = (point: Point) => {
+      if (penDown && pen !== 0) {
+        if (!active) {
+          active = { points: [position], closed: false }
+          let layer = layers.get(pen)
+          if (!layer) {
+            layer = { name: `Pen ${pen}`, polylines: [] }
+            layers.set(pen, layer)
+          }
+          layer.polylines.push(active)
+        }
+        active.points.push(point)
+      } else {
+        active = null
+      }
+      position = point
+    }
+
+    const pattern = /([A-Za-z]{2})([^A-Za-z;]*);?/g
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text)) !== null) {
+      const command = match[1].toUpperCase()
+      const params = match[2]
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map(Number)
+      const line = lineAt(match.index)
+
+      if (params.some(value => !Number.isFinite(value))) {
+        issues.push({ line, message: `Could not parse parameters of ${command}` })
+        continue
+      }
+
+      switch (command) {
+        case 'IN':
+          penDown = false
+          absolute = true
+          active = null
+          break
+
+        case 'SP':
+          pen = params[0] ?? 0
+          active = null
+          break
+
+        case 'PU':
+        case 'PD':
+        case 'PA':
+        case 'PR': {
+          if (command === 'PU' || command === 'PD') {
+            const down = command === 'PD'
+            if (down !== penDown) active = null
+            penDown = down
+          }
+          if (command === 'PA') absolute = true
+          if (command === 'PR') absolute = false
+
+          if (params.length % 2 !== 0) {
+            issues.push({ line, message: `${command} needs coordinate pairs` })
+          }
+          for (let i = 0; i + 1 < params.length; i += 2) {
+            const x = params[i] / UNITS_PER_MM
+            const y = params[i + 1] / UNITS_PER_MM
+            moveTo(absolute ? { x, y } : { x: position.x + x, y: position.y + y })
+          }
+          break
+        }
+
+        case 'LB': {
+          // Labels run to the ETX terminator and may contain anything
+          const end = text.indexOf('\x03', match.index)
+          pattern.lastIndex = end === -1 ? text.length : end + 1
+          issues.push({ line, message: 'Unsupported command LB (text label)' })
+          break
+        }
+
+        default:
+          if (!IGNORED_COMMANDS.has(command)) {
+            issues.push({ line, message: `Unsupported command ${command}` })
+          }
+      }
+    }
+
+    const imported = [...layers.values()].map(layer => ({
+      ...layer,
+      polylines: layer.polylines.map(polyline => {
+        const first = polyline.points[0]
+        const last = polyline.points[polyline.points.length - 1]
+        return { ...polyline, closed: first.x === last.x && first.y === last.y }
+      })
+    }))
+    // Mirror within the drawing's own extents so it keeps its position
+    return { layers: options.flipY ?? true ? PathProcessor.flipY(imported) : imported, issues }
+  }
+
+  // One pen per SP pen used, in order of first use
+  static toSequence(result: HPGLImportResult, name: string): PlotterSequence {
+    return PathProcessor.layersToSequence(result.layers, name)
+  }
+}
@@ -0,0 +1,210 @@
+// lib/HatchFill.ts
+
+import { Point, Polyline } from '@/lib/types'
+import { StrokeOptimizer } from '@/lib/StrokeOptimizer'
+
+export type FillRule = 'nonzero' | 'evenodd'
+
+export interface HatchOptions {
+  angle?: number        // hatch direction in degrees, clockwise from the x axis
+  spacing?: number      // distance between hatch lines in mm
+  crossHatch?: boolean  // add a second pass at right angles
+  inset?: number        // distance kept from every outline in mm
+  fillRule?: FillRule
+}
+
+export const DEFAULT_HATCH_OPTIONS: Required<HatchOptions> = {
+  angle: 45,
+  spacing: 1,
+  crossHatch: false,
+  inset: 0,
+  fillRule: 'nonzero'
+}
+
+// Edge in the rotated frame, where hatch lines run along u
+interface Edge {
+  a: Point
+  b: Point
+  minV: number
+  maxV: number
+}
+
+type Interval = [number, number]
+
+// Shorter pieces would only dab the pen
+const MIN_SEGMENT = 1e-3
+
+export class HatchFill {
+  // Hatch the area enclosed by the polylines, all of which are treated as
+  // closed rings. Inner rings become holes according to the fill rule.
+  static fill(polylines: Polyline[], options: HatchOptions = {}): Polyline[] {
+    const settings = { ...DEFAULT_HATCH_OPTIONS, ...options }
+    if (!(settings.spacing > 0)) {
+      throw new Error('Hatch spacing must be greater than 0')
+    }
+
+    const rings = polylines.map(polyline => polyline.points).filter(points => points.length >= 3)
+    if (rings.length === 0) return []
+
+    const first = this.hatch(rings, settings.angle, settings)
+    if (!settings.crossHatch) return first
+
+    const start = first.length > 0 ? first[first.length - 1].points[1] : undefined
+    return [...first, ...this.hatch(rings, settings.angle + 90, settings, start)]
+  }
+
+  private static hatch(
+    rings: Point[][],
+    angle: number,
+    settings: Required<HatchOptions>,
+    start?: Point
+  ): Polyline[] {
+    const radians = (angle * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+    const toFrame = (p: Point): Point => ({ x: p.x * cos + p.y * sin, y: -p.x * sin + p.y * cos })
+    const fromFrame = (u: number, v: number): Point => ({ x: u * cos - v * sin, y: u * sin + v * cos })
+
+    const edges: Edge[] = []
+    for (const ring of rings) {
+      const points = ring.map(toFrame)
+      for (let i = 0; i < points.length; i++) {
+        const a = points[i]
+        const b = points[(i + 1) % points.length]
+        if (a.x === b.x && a.y === b.y) continue
+        edges.push({ a, b, minV: Math.min(a.y, b.y), maxV: Math.max(a.y, b.y) })
+      }
+    }
+    if (edges.length === 0) return []
+
+    let minV = Infinity
+    let maxV = -Infinity
+    for (const edge of edges) {
+      minV = Math.min(minV, edge.minV)
+      maxV = Math.max(maxV, edge.maxV)
+    }
+
+    // Lines sit on a fixed grid so neighbouring shapes hatch in step
+    const { spacing, inset, fillRule } = settings
+    const lines: Polyline[] = []
+    let row = 0
+    for (let k = Math.ceil(minV / spacing - 0.5); (k + 0.5) * spacing < maxV; k++) {
+      const v = (k + 0.5) * spacing
+      let segments = this.scanline(edges, v, fillRule)
+      if (inset > 0) segments = this.subtract(segments, this.nearEdges(edges, v, inset))
+
+      const pieces = segments
+        .filter(([from, to]) => to - from > MIN_SEGMENT)
+        .map(([from, to]) => ({ points: [fromFrame(from, v), fromFrame(to, v)], closed: false }))
+
+      // Alternate direction row by row; the optimizer keeps this order
+      // where it is already the shortest
+      if (row % 2 === 1) {
+        pieces.reverse()
+        for (const piece of pieces) piece.points.reverse()
+      }
+      if (pieces.length > 0) row++
+      lines.push(...pieces)
+    }
+
+    if (lines.length === 0) return lines
+    return StrokeOptimizer.order(lines, { start: start ?? lines[0].points[0] })
+  }
+
+  // Inside spans of one hatch line. Each edge crossing adds its direction
+  // to the winding number; edges are half-open so vertices count once.
+  private static scanline(edges: Edge[], v: number, fillRule: FillRule): Interval[] {
+    const crossings: { u: number, winding: number }[] = []
+    for (const { a, b } of edges) {
+      if ((a.y <= v) === (b.y <= v)) continue
+      const t = (v - a.y) / (b.y - a.y)
+      crossings.push({ u: a.x + t * (b.x - a.x), winding: b.y > a.y ? 1 : -1 })
+    }
+    crossings.sort((p, q) => p.u - q.u)
+
+    const inside = (winding: number) => fillRule === 'evenodd' ? winding % 2 !== 0 : winding !== 0
+    const spans: Interval[] = []
+    let winding = 0
+    for (let i = 0; i < crossings.length - 1; i++) {
+      winding += crossings[i].winding
+      if (inside(winding)) {
+        const from = crossings[i].u
+        const to = crossings[i + 1].u
+        const previous = spans[spans.length - 1]
+        if (previous && previous[1] === from) previous[1] = to
+        else spans.push([from, to])
+      }
+    }
+    return spans
+  }
+
+  // Parts of the hatch line closer than the inset to any edge: the line
+  // crosses each edge's capsule in a single interval
+  private static nearEdges(edges: Edge[], v: number, radius: number): Interval[] {
+    const intervals: Interval[] = []
+    for (const { a, b, minV, maxV } of edges) {
+      if (v < minV - radius || v > maxV + radius) continue
+
+      let lo = Infinity
+      let hi = -Infinity
+      const include = (from: number, to: number) => {
+        if (from < to) {
+          lo = Math.min(lo, from)
+          hi = Math.max(hi, to)
+        }
+      }
+
+      for (const end of [a, b]) {
+        const dv = v - end.y
+        if (Math.abs(dv) < radius) {
+          const half = Math.sqrt(radius * radius - dv * dv)
+          include(end.x - half, end.x + half)
+        }
+      }
+
+      // Band alongside the edge: perpendicular distance below the radius
+      // and the projection falling within the edge
+      const du = b.x - a.x
+      const dv = b.y - a.y
+      const length = Math.hypot(du, dv)
+      let from = -Infinity
+      let to = Infinity
+      const limit = (coefficient: number, offset: number, min: number, max: number) => {
+        // min < coefficient * u + offset < max
+        if (coefficient === 0) {
+          if (offset <= min || offset >= max) to = -Infinity
+          return
+        }
+        const p = (min - offset) / coefficient
+        const q = (max - offset) / coefficient
+        from = Math.max(from, Math.min(p, q))
+        to = Math.min(to, Math.max(p, q))
+      }
+      limit(-dv, du * (v - a.y) + dv * a.x, -radius * length, radius * length)
+      limit(du, dv * (v - a.y) - du * a.x, 0, length * length)
+      include(from, to)
+
+      if (lo < hi) intervals.push([lo, hi])
+    }
+    return intervals
+  }
+
+  private static subtract(spans: Interval[], removed: Interval[]): Interval[] {
+    if (removed.length === 0) return spans
+    removed.sort((p, q) => p[0] - q[0])
+
+    const result: Interval[] = []
+    for (const [start, end] of spans) {
+      let cursor = start
+      for (const [from, to] of removed) {
+        if (to <= cursor) continue
+        if (from >= end) break
+        if (from > cursor) result.push([cursor, from])
+        cursor = Math.max(cursor, to)
+        if (cursor >= end) break
+      }
+      if (cursor < end) result.push([cursor, end])
+    }
+    return result
+  }
+}
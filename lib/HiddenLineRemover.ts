@@ -0,0 +1,194 @@
+// lib/HiddenLineRemover.ts
+
+import { Point, Polyline } from '@/lib/types'
+import { FillRule } from '@/lib/HatchFill'
+
+// A shape in drawing order; later shapes are painted on top
+export interface LayeredShape {
+  polylines: Polyline[]
+  hatching?: Polyline[]
+  fill?: { rule: FillRule, opacity: number }
+}
+
+interface Occluder {
+  rings: Point[][]
+  rule: FillRule
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+// Crossings closer than this along a segment are treated as one
+const EPSILON = 1e-9
+
+export class HiddenLineRemover {
+  // Clip every shape's strokes against the opaque fills above it, so only
+  // what is visible on screen gets plotted. Shapes keep their order.
+  static apply<T extends LayeredShape>(shapes: T[]): T[] {
+    const occluders: Occluder[] = []
+    const result: T[] = new Array(shapes.length)
+
+    for (let i = shapes.length - 1; i >= 0; i--) {
+      const shape = shapes[i]
+      result[i] = occluders.length === 0 ? shape : {
+        ...shape,
+        polylines: this.clip(shape.polylines, occluders),
+        ...(shape.hatching && { hatching: this.clip(shape.hatching, occluders) })
+      }
+
+      if (shape.fill && shape.fill.opacity >= 1) {
+        const occluder = this.occluder(shape.polylines, shape.fill.rule)
+        if (occluder) occluders.push(occluder)
+      }
+    }
+
+    return result
+  }
+
+  // The visible parts of the polylines, split where they pass under an occluder
+  private static clip(polylines: Polyline[], occluders: Occluder[]): Polyline[] {
+    const visible: Polyline[] = []
+
+    for (const polyline of polylines) {
+      const pieces: Point[][] = []
+      let current: Point[] | null = null
+      let hidden = false
+
+      for (let i = 1; i < polyline.points.length; i++) {
+        const a = polyline.points[i - 1]
+        const b = polyline.points[i]
+        const relevant = occluders.filter(occluder => this.overlaps(occluder, a, b))
+        const spans = this.visibleSpans(a, b, relevant)
+        if (spans.length !== 1 || spans[0][0] > 0 || spans[0][1] < 1) hidden = true
+        if (spans.length === 0) current = null
+
+        for (const [from, to] of spans) {
+          const start = this.lerp(a, b, from)
+          const end = this.lerp(a, b, to)
+          if (current && from <= EPSILON) {
+            current.push(end)
+          } else {
+            current = [start, end]
+            pieces.push(current)
+          }
+          if (to < 1 - EPSILON) current = null
+        }
+      }
+
+      // A closed outline hidden only in the middle is one stroke, not two
+      const first = pieces[0]
+      const last = pieces[pieces.length - 1]
+      if (polyline.closed && pieces.length > 1 && this.same(first[0], polyline.points[0]) &&
+          this.same(last[last.length - 1], polyline.points[polyline.points.length - 1])) {
+        pieces[0] = [...last, ...first.slice(1)]
+        pieces.pop()
+      }
+
+      for (const points of pieces) {
+        visible.push({ points, closed: polyline.closed && !hidden })
+      }
+    }
+
+    return visible
+  }
+
+  private static occluder(polylines: Polyline[], rule: FillRule): Occluder | null {
+    const rings = polylines.map(polyline => polyline.points).filter(points => points.length >= 3)
+    if (rings.length === 0) return null
+
+    let minX = Infinity
+    let minY = Infinity
+    let maxX = -Infinity
+    let maxY = -Infinity
+    for (const ring of rings) {
+      for (const point of ring) {
+        minX = Math.min(minX, point.x)
+        minY = Math.min(minY, point.y)
+        maxX = Math.max(maxX, point.x)
+        maxY = Math.max(maxY, point.y)
+      }
+    }
+    return { rings, rule, minX, minY, maxX, maxY }
+  }
+
+  // Parameter ranges of a→b that lie outside every occluder. The segment
+  // is cut at each edge crossing and every piece is tested at its middle.
+  private static visibleSpans(a: Point, b: Point, occluders: Occluder[]): [number, number][] {
+    if (occluders.length === 0) return [[0, 1]]
+
+    const cuts = [0, 1]
+    for (const occluder of occluders) {
+      for (const ring of occluder.rings) {
+        for (let i = 0; i < ring.length; i++) {
+          const t = this.intersect(a, b, ring[i], ring[(i + 1) % ring.length])
+          if (t !== null) cuts.push(t)
+        }
+      }
+    }
+    cuts.sort((p, q) => p - q)
+
+    const spans: [number, number][] = []
+    for (let i = 1; i < cuts.length; i++) {
+      const from = cuts[i - 1]
+      const to = cuts[i]
+      if (to - from <= EPSILON) continue
+
+      const middle = this.lerp(a, b, (from + to) / 2)
+      if (occluders.some(occluder => this.contains(occluder, middle))) continue
+
+      const previous = spans[spans.length - 1]
+      if (previous && from - previous[1] <= EPSILON) previous[1] = to
+      else spans.push([from, to])
+    }
+    return spans
+  }
+
+  // Where a→b crosses the edge c→d, as a fraction of a→b
+  private static intersect(a: Point, b: Point, c: Point, d: Point): number | null {
+    const rx = b.x - a.x
+    const ry = b.y - a.y
+    const sx = d.x - c.x
+    const sy = d.y - c.y
+    const denominator = rx * sy - ry * sx
+    if (denominator === 0) return null
+
+    const t = ((c.x - a.x) * sy - (c.y - a.y) * sx) / denominator
+    const u = ((c.x - a.x) * ry - (c.y - a.y) * rx) / denominator
+    return t > 0 && t < 1 && u >= 0 && u <= 1 ? t : null
+  }
+
+  private static contains(occluder: Occluder, point: Point): boolean {
+    if (point.x < occluder.minX || point.x > occluder.maxX ||
+        point.y < occluder.minY || point.y > occluder.maxY) {
+      return false
+    }
+
+    let winding = 0
+    for (const ring of occluder.rings) {
+      for (let i = 0; i < ring.length; i++) {
+        const a = ring[i]
+        const b = ring[(i + 1) % ring.length]
+        if ((a.y <= point.y) === (b.y <= point.y)) continue
+        const x = a.x + ((point.y - a.y) / (b.y - a.y)) * (b.x - a.x)
+        if (x > point.x) winding += b.y > a.y ? 1 : -1
+      }
+    }
+    return occluder.rule === 'evenodd' ? winding % 2 !== 0 : winding !== 0
+  }
+
+  private static overlaps(occluder: Occluder, a: Point, b: Point): boolean {
+    return Math.max(a.x, b.x) >= occluder.minX && Math.min(a.x, b.x) <= occluder.maxX &&
+      Math.max(a.y, b.y) >= occluder.minY && Math.min(a.y, b.y) <= occluder.maxY
+  }
+
+  private static lerp(a: Point, b: Point, t: number): Point {
+    if (t <= 0) return a
+    if (t >= 1) return b
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }
+  }
+
+  private static same(a: Point, b: Point): boolean {
+    return a.x === b.x && a.y === b.y
+  }
+}
@@ -0,0 +1,218 @@
+// lib/JobQueue.ts
+
+import { PenAssignment, PlotterSequence } from '@/lib/types'
+import { CommandQueue } from '@/lib/CommandQueue'
+import { MovementValidator } from '@/lib/MovementValidator'
+import { PathExecutor, PathProcessor } from '@/lib/pathUtils'
+
+// pending jobs wait to be started; queued ones run as soon as the plotter is
+// free; paused ones hold the plotter with the pen lifted until resumed
+export type JobState = 'pending' | 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled'
+
+// What clients see of a job; the sequence itself stays with the queue
+export interface PlotJob {
+  id: string
+  name: string
+  state: JobState
+  progress: number        // percent
+  moves: number
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  error?: string
+}
+
+export type JobListener = (job: PlotJob) => void
+
+// Asked before each pen change of a running job; false cancels it
+export type JobPenChangeHandler = (
+  job: PlotJob,
+  pen: PenAssignment,
+  layer: number,
+  layerCount: number
+) => Promise<boolean>
+
+interface JobEntry {
+  job: PlotJob
+  sequence: PlotterSequence
+  ticket: number      // bumped on every start, so a paused job keeps no stale turn
+}
+
+const FINISHED: JobState[] = ['completed', 'failed', 'cancelled']
+const ACTIVE: JobState[] = ['running', 'paused']
+
+// Plot jobs run one after another through the plotter's command queue, so
+// they never interleave with other commands sent to the same plotter
+export class JobQueue {
+  private entries = new Map<string, JobEntry>()
+  private listeners: JobListener[] = []
+  private nextId = 1
+
+  constructor(
+    private readonly executor: PathExecutor,
+    private readonly validator: MovementValidator,
+    private readonly commandQueue: CommandQueue,
+    private readonly onPenChange?: JobPenChangeHandler
+  ) {}
+
+  // Validate a sequence and queue it, or hold it until started. Throws
+  // when the sequence cannot be plotted.
+  submit(sequence: PlotterSequence, start: boolean = true): PlotJob {
+    const validation = this.validator.validateSequence(sequence)
+    if (!validation.valid) {
+      throw new Error(`Invalid sequence: ${validation.reason}`)
+    }
+    // Without a handler the executor would fail the job at its first pen change
+    const layers = PathProcessor.splitLayers(sequence.moves, sequence.pens).length
+    if (layers > 1 && !this.onPenChange) {
+      throw new Error(`Sequence uses ${layers} pens but pen changes cannot be confirmed`)
+    }
+
+    const job: PlotJob = {
+      id: `job-${this.nextId++}`,
+      name: sequence.name,
+      state: 'pending',
+      progress: 0,
+      moves: sequence.moves.length,
+      createdAt: new Date().toISOString()
+    }
+    this.entries.set(job.id, { job, sequence, ticket: 0 })
+    this.notify(job)
+
+    return start ? this.start(job.id) : { ...job }
+  }
+
+  // Queue a pending job behind whatever the plotter is doing
+  start(id: string): PlotJob {
+    const job = this.find(id)
+    if (job.state !== 'pending') {
+      throw new Error(`Job ${id} is ${job.state}, only pending jobs can be started`)
+    }
+
+    const ticket = ++this.entries.get(id)!.ticket
+    this.update(job, { state: 'queued' })
+    this.commandQueue.add(() => this.run(id, ticket))
+    return { ...job }
+  }
+
+  // Hold a queued job back until it is started again. A running job stops
+  // at the end of its current move and turns paused once it has.
+  pause(id: string): PlotJob {
+    const job = this.find(id)
+    if (job.state === 'running') {
+      this.executor.pause()
+      return { ...job }
+    }
+    if (job.state !== 'queued') {
+      throw new Error(`Job ${id} is ${job.state}, only queued or running jobs can be paused`)
+    }
+
+    this.update(job, { state: 'pending' })
+    return { ...job }
+  }
+
+  // Carry on with a paused job, or withdraw a pause that has not taken hold
+  resume(id: string): PlotJob {
+    const job = this.find(id)
+    if (!ACTIVE.includes(job.state)) {
+      throw new Error(`Job ${id} is ${job.state}, only paused jobs can be resumed`)
+    }
+
+    this.executor.resume()
+    return { ...job }
+  }
+
+  // Drop a job that has not started. A running or paused job stops at the
+  // end of its current move and turns cancelled once it has.
+  cancel(id: string): PlotJob {
+    const job = this.find(id)
+    if (FINISHED.includes(job.state)) {
+      throw new Error(`Job ${id} has already ${job.state === 'cancelled' ? 'been cancelled' : 'finished'}`)
+    }
+    if (ACTIVE.includes(job.state)) {
+      this.executor.cancel()
+      return { ...job }
+    }
+
+    this.update(job, { state: 'cancelled', finishedAt: new Date().toISOString() })
+    return { ...job }
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id)
+  }
+
+  get(id: string): PlotJob | undefined {
+    const job = this.entries.get(id)?.job
+    return job && { ...job }
+  }
+
+  list(): PlotJob[] {
+    return [...this.entries.values()].map(({ job }) => ({ ...job }))
+  }
+
+  get busy(): boolean {
+    return [...this.entries.values()].some(({ job }) => ACTIVE.includes(job.state))
+  }
+
+  onChange(listener: JobListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener)
+    }
+  }
+
+  private find(id: string): PlotJob {
+    const job = this.entries.get(id)?.job
+    if (!job) {
+      throw new Error(`Unknown job ${id}`)
+    }
+    return job
+  }
+
+  private async run(id: string, ticket: number): Promise<void> {
+    const entry = this.entries.get(id)
+    if (!entry || entry.ticket !== ticket || entry.job.state !== 'queued') return
+    const { job, sequence } = entry
+
+    this.update(job, { state: 'running', startedAt: new Date().toISOString() })
+    const unsubscribe = this.executor.onStateChange(state => {
+      if (state === 'paused') this.update(job, { state: 'paused' })
+      if (state === 'resuming') this.update(job, { state: 'running' })
+    })
+    try {
+      const completed = await this.executor.executeSequence(
+        sequence,
+        progress => {
+          // Only whole percents are worth telling anyone about
+          if (Math.floor(progress) !== Math.floor(job.progress)) {
+            this.update(job, { progress })
+          } else {
+            job.progress = progress
+          }
+        },
+        this.onPenChange && ((pen, layer, layerCount) => this.onPenChange!({ ...job }, pen, layer, layerCount))
+      )
+      this.update(job, completed
+        ? { state: 'completed', progress: 100, finishedAt: new Date().toISOString() }
+        : { state: 'cancelled', finishedAt: new Date().toISOString() })
+    } catch (error) {
+      this.update(job, {
+        state: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date().toISOString()
+      })
+    } finally {
+      unsubscribe()
+    }
+  }
+
+  private update(job: PlotJob, changes: Partial<PlotJob>): void {
+    Object.assign(job, changes)
+    this.notify(job)
+  }
+
+  private notify(job: PlotJob): void {
+    this.listeners.forEach(listener => listener({ ...job }))
+  }
+}
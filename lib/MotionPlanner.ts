@@ -0,0 +1,221 @@
+// lib/MotionPlanner.ts
+
+import { MotionLimits, MotionStep, Point, SimpleCalibration, DEFAULT_MOTION_LIMITS } from '@/lib/types'
+
+export interface MotionSegment {
+  start: Point
+  end: Point
+  speed: number          // requested feed rate in mm/s
+  stopAfter?: boolean    // come to rest at the end, e.g. before a pen change
+}
+
+export interface MotionBlock {
+  start: Point
+  end: Point
+  length: number         // mm
+  direction: Point       // unit vector
+  acceleration: number   // mm/s² along the segment
+  entrySpeed: number     // mm/s
+  cruiseSpeed: number
+  exitSpeed: number
+  accelTime: number      // s
+  cruiseTime: number
+  decelTime: number
+  duration: number
+}
+
+// Acceleration and deceleration are split into slices of about this length
+const PROFILE_SLICE_MS = 50
+
+export class MotionPlanner {
+  // Segments shorter than this (mm) are skipped by the planner
+  static readonly MIN_SEGMENT_LENGTH = 1e-6
+
+  // Plan trapezoidal velocity profiles for a run of segments, in the style
+  // of GRBL's planner: junction speeds come from the junction deviation,
+  // then backward and forward passes keep every block within its
+  // acceleration limit
+  static plan(
+    segments: MotionSegment[],
+    limits: MotionLimits = DEFAULT_MOTION_LIMITS
+  ): MotionBlock[] {
+    const blocks = segments
+      .map(segment => this.createBlock(segment, limits))
+      .filter((block): block is MotionBlock & { stopAfter: boolean, maxEntry: number } => block !== null)
+
+    // Maximum entry speed at each junction
+    for (let i = 0; i < blocks.length; i++) {
+      const previous = blocks[i - 1]
+      blocks[i].maxEntry = previous && !previous.stopAfter
+        ? this.junctionSpeed(previous, blocks[i], limits)
+        : 0
+    }
+
+    // Backward pass: every block must be able to slow down for the next one
+    let nextEntry = 0
+    for (let i = blocks.length - 1; i >= 0; i--) {
+      const block = blocks[i]
+      block.exitSpeed = block.stopAfter ? 0 : nextEntry
+      block.entrySpeed = Math.min(
+        block.maxEntry,
+        Math.sqrt(block.exitSpeed ** 2 + 2 * block.acceleration * block.length)
+      )
+      nextEntry = block.entrySpeed
+    }
+
+    // Forward pass: every block must be able to reach its exit speed
+    for (let i = 0; i < blocks.length; i++) {
+      const block = blocks[i]
+      const reachable = Math.sqrt(block.entrySpeed ** 2 + 2 * block.acceleration * block.length)
+      block.exitSpeed = Math.min(block.exitSpeed, reachable)
+      if (blocks[i + 1]) {
+        blocks[i + 1].entrySpeed = Math.min(blocks[i + 1].entrySpeed, block.exitSpeed)
+      }
+    }
+
+    return blocks.map(block => {
+      const { stopAfter: _stopAfter, maxEntry: _maxEntry, ...planned } = block
+      return this.computeTrapezoid(planned)
+    })
+  }
+
+  // Total time in seconds
+  static totalDuration(blocks: MotionBlock[]): number {
+    return blocks.reduce((total, block) => total + block.duration, 0)
+  }
+
+  // Slice a block into constant-velocity motor steps. Positions are computed
+  // cumulatively so rounding never accumulates across slices.
+  static toSteps(block: MotionBlock, calibration: SimpleCalibration): MotionStep[] {
+    const times: number[] = [0]
+    const addPhase = (start: number, length: number, sliced: boolean) => {
+      if (length <= 0) return
+      const slices = sliced ? Math.max(1, Math.ceil(length * 1000 / PROFILE_SLICE_MS)) : 1
+      for (let i = 1; i <= slices; i++) times.push(start + length * i / slices)
+    }
+    addPhase(0, block.accelTime, true)
+    addPhase(block.accelTime, block.cruiseTime, false)
+    addPhase(block.accelTime + block.cruiseTime, block.decelTime, true)
+
+    const steps: MotionStep[] = []
+    let previous = 0
+    for (let i = 1; i < times.length; i++) {
+      const distance = this.distanceAt(block, times[i])
+      const delta = distance - previous
+      previous = distance
+      steps.push({
+        duration: (times[i] - times[i - 1]) * 1000,
+        degrees: {
+          B: delta * block.direction.x * calibration.x,  // X axis, pen carriage
+          A: delta * block.direction.y * calibration.y   // Y axis, paper roll
+        }
+      })
+    }
+    return steps
+  }
+
+  // Distance travelled along the block after t seconds
+  static distanceAt(block: MotionBlock, t: number): number {
+    const { entrySpeed, cruiseSpeed, exitSpeed, acceleration, accelTime, cruiseTime, decelTime } = block
+    if (t <= 0) return 0
+    if (t >= block.duration) return block.length
+
+    if (t <= accelTime) {
+      return entrySpeed * t + 0.5 * acceleration * t * t
+    }
+    const accelDistance = (entrySpeed + cruiseSpeed) / 2 * accelTime
+    if (t <= accelTime + cruiseTime) {
+      return accelDistance + cruiseSpeed * (t - accelTime)
+    }
+    const remaining = accelTime + cruiseTime + decelTime - t
+    // Mirror of the deceleration phase, measured back from the end
+    return block.length - (exitSpeed * remaining + 0.5 * acceleration * remaining * remaining)
+  }
+
+  private static createBlock(segment: MotionSegment, limits: MotionLimits) {
+    const dx = segment.end.x - segment.start.x
+    const dy = segment.end.y - segment.start.y
+    const length = Math.hypot(dx, dy)
+    if (length < this.MIN_SEGMENT_LENGTH) return null
+
+    const ux = dx / length
+    const uy = dy / length
+
+    // Each axis only sees its share of the path acceleration and speed
+    const axisLimit = (x: number, y: number) => Math.min(
+      Math.abs(ux) > 1e-9 ? x / Math.abs(ux) : Infinity,
+      Math.abs(uy) > 1e-9 ? y / Math.abs(uy) : Infinity
+    )
+    const acceleration = axisLimit(limits.acceleration.X, limits.acceleration.Y)
+    const cruiseSpeed = Math.min(
+      segment.speed,
+      axisLimit(limits.maxAxisSpeed.X, limits.maxAxisSpeed.Y)
+    )
+
+    return {
+      start: segment.start,
+      end: segment.end,
+      length,
+      direction: { x: ux, y: uy },
+      acceleration,
+      entrySpeed: 0,
+      cruiseSpeed,
+      exitSpeed: 0,
+      accelTime: 0,
+      cruiseTime: 0,
+      decelTime: 0,
+      duration: 0,
+      stopAfter: !!segment.stopAfter,
+      maxEntry: 0
+    }
+  }
+
+  // GRBL's junction deviation: the fastest speed at which the corner could be
+  // taken along a circle that deviates from the corner by junctionDeviation
+  private static junctionSpeed(previous: MotionBlock, next: MotionBlock, limits: MotionLimits): number {
+    const cosTheta = -(previous.direction.x * next.direction.x + previous.direction.y * next.direction.y)
+    const limit = Math.min(previous.cruiseSpeed, next.cruiseSpeed)
+
+    // Straight continuation
+    if (cosTheta < -0.999999) return limit
+    // Full reversal
+    if (cosTheta > 0.999999) return limits.minJunctionSpeed
+
+    const sinHalfTheta = Math.sqrt((1 - cosTheta) / 2)
+    const acceleration = Math.min(previous.acceleration, next.acceleration)
+    const speed = Math.sqrt(
+      acceleration * limits.junctionDeviation * sinHalfTheta / (1 - sinHalfTheta)
+    )
+    return Math.min(limit, Math.max(limits.minJunctionSpeed, speed))
+  }
+
+  private static computeTrapezoid(block: MotionBlock): MotionBlock {
+    const { length, acceleration, entrySpeed, exitSpeed } = block
+    let cruiseSpeed = block.cruiseSpeed
+
+    let accelDistance = (cruiseSpeed ** 2 - entrySpeed ** 2) / (2 * acceleration)
+    let decelDistance = (cruiseSpeed ** 2 - exitSpeed ** 2) / (2 * acceleration)
+
+    // Too short to reach cruise speed: triangle profile
+    if (accelDistance + decelDistance > length) {
+      cruiseSpeed = Math.sqrt((2 * acceleration * length + entrySpeed ** 2 + exitSpeed ** 2) / 2)
+      cruiseSpeed = Math.max(cruiseSpeed, entrySpeed, exitSpeed)
+      accelDistance = Math.max(0, (cruiseSpeed ** 2 - entrySpeed ** 2) / (2 * acceleration))
+      decelDistance = Math.max(0, length - accelDistance)
+    }
+
+    const accelTime = (cruiseSpeed - entrySpeed) / acceleration
+    const decelTime = (cruiseSpeed - exitSpeed) / acceleration
+    const cruiseDistance = Math.max(0, length - accelDistance - decelDistance)
+    const cruiseTime = cruiseSpeed > 0 ? cruiseDistance / cruiseSpeed : 0
+
+    return {
+      ...block,
+      cruiseSpeed,
+      accelTime,
+      cruiseTime,
+      decelTime,
+      duration: accelTime + cruiseTime + decelTime
+    }
+  }
+}
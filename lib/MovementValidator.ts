@@ -29,6 +29,11 @@ interface MovementBounds {
   }[];
 }
 
+export interface SequenceViolation {
+  move: number | null    // index into sequence.moves, null for the whole sequence
+  reason: string
+}
+
 export class MovementValidator {
   private bounds: MovementBounds
   private calibration: { x: number, y: number }
@@ -155,34 +160,37 @@ export class MovementValidator {
       return { valid: true };
     }
 
+    const [first] = this.findViolations(sequence)
+    return first ? { valid: false, reason: first.reason } : { valid: true }
+  }
+
+  // Every problem with a sequence in order, where validateSequence stops
+  // at the first
+  findViolations(sequence: PlotterSequence): SequenceViolation[] {
+    const violations: SequenceViolation[] = []
+
     // Check sequence bounds
     if (sequence.boundingBox.maxX > this.bounds.paperWidth ||
         sequence.boundingBox.maxY > this.bounds.paperHeight ||
         sequence.boundingBox.minX < 0 ||
         sequence.boundingBox.minY < 0) {
-      return {
-        valid: false,
-        reason: 'Sequence exceeds paper bounds'
-      };
+      violations.push({ move: null, reason: 'Sequence exceeds paper bounds' })
     }
-  
+
     // Validate moves
     let currentX = 0
     let currentY = 0
-    
-    for (const move of sequence.moves) {
+
+    sequence.moves.forEach((move, i) => {
       const pathValid = this.validatePath(currentX, currentY, move.x, move.y)
       if (!pathValid.valid) {
-        return {
-          valid: false,
-          reason: `Invalid move at (${move.x}, ${move.y}): ${pathValid.reason}`
-        }
+        violations.push({ move: i, reason: `Invalid move at (${move.x}, ${move.y}): ${pathValid.reason}` })
       }
       currentX = move.x
       currentY = move.y
-    }
-  
-    return { valid: true }
+    })
+
+    return violations
   }
 
   private isInZone(
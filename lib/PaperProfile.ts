@@ -0,0 +1,195 @@
+// lib/PaperProfile.ts
+
+import {
+  A5_SIZE,
+  BoundingBox,
+  CalibrationSettings,
+  DrawingArea,
+  MOVEMENT_BOUNDS,
+  MovementValidatorConfig,
+  PaperSize,
+  PlotterSequence,
+  Point,
+  ValidationResult
+} from '@/lib/types'
+
+export type PaperPreset = 'A6' | 'A5' | 'A4' | 'A3' | 'Letter' | 'custom'
+export type PaperOrientation = 'portrait' | 'landscape'
+
+// Corner of the sheet where the plotter's home (0, 0) sits
+export type OriginCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+export interface PaperMargins {
+  top: number     // mm
+  right: number
+  bottom: number
+  left: number
+}
+
+// Drawings are laid out from the sheet's top-left corner, y pointing down.
+// The profile says how that sheet sits on the plotter.
+export interface PaperProfile {
+  preset: PaperPreset
+  width: number       // mm, portrait; only read for custom paper
+  height: number
+  orientation: PaperOrientation
+  margins: PaperMargins
+  origin: OriginCorner
+}
+
+// Portrait sizes in mm
+export const PAPER_PRESETS: Record<Exclude<PaperPreset, 'custom'>, PaperSize> = {
+  A6: { width: 105, height: 148 },
+  A5: { width: A5_SIZE.width, height: A5_SIZE.height },
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 },
+  Letter: { width: 215.9, height: 279.4 }
+}
+
+export const DEFAULT_PAPER_PROFILE: PaperProfile = {
+  preset: 'A5',
+  width: A5_SIZE.width,
+  height: A5_SIZE.height,
+  orientation: 'portrait',
+  margins: { top: 0, right: 0, bottom: 0, left: 0 },
+  origin: 'top-left'
+}
+
+const STORAGE_KEY = 'lego-plotter.paperProfile'
+const ORIGINS: OriginCorner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right']
+
+export class PaperProfiles {
+  // Sheet size as it lies on the plotter
+  static size(profile: PaperProfile): PaperSize {
+    const { width, height } = profile.preset === 'custom' ? profile : PAPER_PRESETS[profile.preset]
+    return profile.orientation === 'landscape' ? { width: height, height: width } : { width, height }
+  }
+
+  // Area inside the margins, in drawing coordinates
+  static printableArea(profile: PaperProfile): BoundingBox {
+    const { width, height } = this.size(profile)
+    const { top, right, bottom, left } = profile.margins
+    return { minX: left, minY: top, maxX: width - right, maxY: height - bottom }
+  }
+
+  static drawingArea(profile: PaperProfile): DrawingArea {
+    const { minX, minY, maxX, maxY } = this.printableArea(profile)
+    return { width: maxX - minX, height: maxY - minY }
+  }
+
+  // Validator bounds in plotter coordinates. Danger zones belong to the
+  // machine, not the paper, so they carry over unchanged.
+  static movementBounds(profile: PaperProfile): MovementValidatorConfig {
+    const { width, height } = this.size(profile)
+    const area = this.printableArea(profile)
+    const a = this.toMachine(profile, { x: area.minX, y: area.minY })
+    const b = this.toMachine(profile, { x: area.maxX, y: area.maxY })
+
+    return {
+      ...MOVEMENT_BOUNDS,
+      minX: Math.min(a.x, b.x),
+      maxX: Math.max(a.x, b.x),
+      minY: Math.min(a.y, b.y),
+      maxY: Math.max(a.y, b.y),
+      paperWidth: width,
+      paperHeight: height
+    }
+  }
+
+  // Where the pen waits to be swapped, in plotter coordinates: the far end
+  // of the carriage on the home side of the printable area
+  static penChangePosition(profile: PaperProfile): Point {
+    const { maxX, minY } = this.movementBounds(profile)
+    return { x: maxX, y: minY }
+  }
+
+  // Calibration with the axis travel of the sheet
+  static calibration<T extends CalibrationSettings>(profile: PaperProfile, calibration: T): T {
+    const { width, height } = this.size(profile)
+    return { ...calibration, maxTravel: { X: width, Y: height } }
+  }
+
+  // Drawing coordinates to plotter coordinates. Every origin corner is a
+  // mirror, so the same mapping also converts back.
+  static toMachine(profile: PaperProfile, point: Point): Point {
+    const { width, height } = this.size(profile)
+    return {
+      x: profile.origin.endsWith('right') ? width - point.x : point.x,
+      y: profile.origin.startsWith('bottom') ? height - point.y : point.y
+    }
+  }
+
+  static fromMachine(profile: PaperProfile, point: Point): Point {
+    return this.toMachine(profile, point)
+  }
+
+  static toMachineSequence(profile: PaperProfile, sequence: PlotterSequence): PlotterSequence {
+    if (profile.origin === 'top-left') return sequence
+
+    const moves = sequence.moves.map(move => ({ ...move, ...this.toMachine(profile, move) }))
+    const a = this.toMachine(profile, { x: sequence.boundingBox.minX, y: sequence.boundingBox.minY })
+    const b = this.toMachine(profile, { x: sequence.boundingBox.maxX, y: sequence.boundingBox.maxY })
+    return {
+      ...sequence,
+      moves,
+      boundingBox: {
+        minX: Math.min(a.x, b.x),
+        maxX: Math.max(a.x, b.x),
+        minY: Math.min(a.y, b.y),
+        maxY: Math.max(a.y, b.y)
+      }
+    }
+  }
+
+  static validate(profile: PaperProfile): ValidationResult {
+    if (profile.preset !== 'custom' && !(profile.preset in PAPER_PRESETS)) {
+      return { valid: false, reason: `Unknown paper size ${profile.preset}` }
+    }
+    if (!(profile.width > 0) || !(profile.height > 0)) {
+      return { valid: false, reason: 'Paper width and height must be greater than 0' }
+    }
+    if (profile.orientation !== 'portrait' && profile.orientation !== 'landscape') {
+      return { valid: false, reason: `Unknown orientation ${profile.orientation}` }
+    }
+    if (!ORIGINS.includes(profile.origin)) {
+      return { valid: false, reason: `Unknown origin corner ${profile.origin}` }
+    }
+
+    const { top, right, bottom, left } = profile.margins ?? {}
+    if (![top, right, bottom, left].every(margin => typeof margin === 'number' && margin >= 0)) {
+      return { valid: false, reason: 'Margins must be 0 or more' }
+    }
+    const { width, height } = this.drawingArea(profile)
+    if (width <= 0 || height <= 0) {
+      return { valid: false, reason: 'Margins leave no room to draw' }
+    }
+
+    return { valid: true }
+  }
+
+  // The profile saved in this browser, or the default when there is none
+  static load(): PaperProfile {
+    if (typeof localStorage === 'undefined') return DEFAULT_PAPER_PROFILE
+
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY)
+      if (!saved) return DEFAULT_PAPER_PROFILE
+
+      const profile = { ...DEFAULT_PAPER_PROFILE, ...JSON.parse(saved) }
+      return this.validate(profile).valid ? profile : DEFAULT_PAPER_PROFILE
+    } catch (error) {
+      console.warn(`Ignoring saved paper profile: ${error}`)
+      return DEFAULT_PAPER_PROFILE
+    }
+  }
+
+  static save(profile: PaperProfile): void {
+    const validation = this.validate(profile)
+    if (!validation.valid) {
+      throw new Error(`Invalid paper profile: ${validation.reason}`)
+    }
+    if (typeof localStorage !== 'undefined') {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(profile))
+    }
+  }
+}
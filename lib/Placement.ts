@@ -0,0 +1,133 @@
+// lib/Placement.ts
+
+import {
+  BoundingBox,
+  PlacementAlign,
+  PlacementFit,
+  PlacementTransform,
+  PlotterMove,
+  PlotterSequence,
+  Point
+} from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export const DEFAULT_PLACEMENT: PlacementTransform = {
+  fit: 'actual',
+  align: 'top-left',
+  scale: 1,
+  rotation: 0,
+  mirrorX: false,
+  mirrorY: false,
+  offsetX: 0,
+  offsetY: 0
+}
+
+export class Placement {
+  // Place a sequence on the page. Filling crops whatever falls outside the
+  // area; the transform is recorded in the sequence metadata.
+  static apply(sequence: PlotterSequence, area: BoundingBox, transform: PlacementTransform): PlotterSequence {
+    let moves = this.transformMoves(sequence.moves, area, transform)
+
+    if (transform.fit === 'fill') {
+      moves = PathProcessor.splitLayers(moves, sequence.pens).flatMap(layer =>
+        PathProcessor.assignPen(
+          PathProcessor.polylinesToMoves(PathProcessor.clipPolylines(PathProcessor.movesToPolylines(layer.moves), area)),
+          sequence.pens && layer.pen.id
+        )
+      )
+    }
+
+    return {
+      ...sequence,
+      moves,
+      boundingBox: PathProcessor.calculateBoundingBox(moves),
+      estimatedTime: undefined,
+      totalDistance: undefined,
+      metadata: {
+        ...(sequence.metadata ?? { createdAt: new Date().toISOString() }),
+        placement: transform
+      }
+    }
+  }
+
+  // Artwork that fits stays where the file put it; larger artwork is
+  // fitted and centred
+  static defaultFor(sequence: PlotterSequence, area: BoundingBox): PlacementTransform {
+    const box = sequence.boundingBox
+    const fits = box.maxX - box.minX <= area.maxX - area.minX && box.maxY - box.minY <= area.maxY - area.minY
+    return fits
+      ? { ...DEFAULT_PLACEMENT, offsetX: box.minX - area.minX, offsetY: box.minY - area.minY }
+      : { ...DEFAULT_PLACEMENT, fit: 'fit', align: 'center' }
+  }
+
+  static transformMoves(moves: PlotterMove[], area: BoundingBox, transform: PlacementTransform): PlotterMove[] {
+    if (moves.length === 0) return moves
+    if (!(transform.scale > 0)) {
+      throw new Error('Placement scale must be greater than 0')
+    }
+
+    const source = PathProcessor.calculateBoundingBox(moves)
+    const centre = { x: (source.minX + source.maxX) / 2, y: (source.minY + source.maxY) / 2 }
+    const radians = (transform.rotation * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+
+    // Mirror and rotate about the centre; y points down, so a positive
+    // angle turns clockwise on the page
+    const oriented = moves.map(move => {
+      const x = (move.x - centre.x) * (transform.mirrorX ? -1 : 1)
+      const y = (move.y - centre.y) * (transform.mirrorY ? -1 : 1)
+      return { x: x * cos - y * sin, y: x * sin + y * cos }
+    })
+
+    const box = this.bounds(oriented)
+    const width = box.maxX - box.minX
+    const height = box.maxY - box.minY
+    const scale = this.fitScale(transform.fit, width, height, area) * transform.scale
+    const origin = this.alignedOrigin(transform.align, width * scale, height * scale, area)
+
+    return moves.map((move, i) => ({
+      ...move,
+      x: origin.x + (oriented[i].x - box.minX) * scale + transform.offsetX,
+      y: origin.y + (oriented[i].y - box.minY) * scale + transform.offsetY
+    }))
+  }
+
+  // Scale that fits the artwork inside the area or makes it cover the area.
+  // A flat drawing (a single line) is sized along its one dimension.
+  private static fitScale(fit: PlacementFit, width: number, height: number, area: BoundingBox): number {
+    if (fit === 'actual') return 1
+
+    const scales = [
+      width > 0 ? (area.maxX - area.minX) / width : Infinity,
+      height > 0 ? (area.maxY - area.minY) / height : Infinity
+    ].filter(Number.isFinite)
+    if (scales.length === 0) return 1
+    return fit === 'fit' ? Math.min(...scales) : Math.max(...scales)
+  }
+
+  // Top-left corner of the placed artwork
+  private static alignedOrigin(align: PlacementAlign, width: number, height: number, area: BoundingBox): Point {
+    if (align === 'center') {
+      return {
+        x: (area.minX + area.maxX - width) / 2,
+        y: (area.minY + area.maxY - height) / 2
+      }
+    }
+    return {
+      x: align.endsWith('right') ? area.maxX - width : area.minX,
+      y: align.startsWith('bottom') ? area.maxY - height : area.minY
+    }
+  }
+
+  private static bounds(points: Point[]): BoundingBox {
+    const box = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    for (const point of points) {
+      box.minX = Math.min(box.minX, point.x)
+      box.minY = Math.min(box.minY, point.y)
+      box.maxX = Math.max(box.maxX, point.x)
+      box.maxY = Math.max(box.maxY, point.y)
+    }
+    return box
+  }
+}
@@ -0,0 +1,173 @@
+// lib/PlotterDriver.ts
+
+import { MotionStep, PositionUpdate, SimpleCalibration } from '@/lib/types'
+import { CommandQueue } from '@/lib/CommandQueue'
+
+export type MotorDirection = 'forward' | 'backward'
+
+// What a backend can do, so callers check features instead of classes
+export interface DriverCapabilities {
+  simulated: boolean         // no hardware attached
+  encoderFeedback: boolean   // positions are measured, not assumed
+  motionProfiles: boolean    // executeMotion blends steps without stopping
+  signalStrength: boolean    // getRSSI reports the radio link
+  ports: string[]            // A = Y (paper), B = X (carriage), C = pen
+}
+
+export interface MotorStatus {
+  exists: boolean
+  isAbsoluteMotor: boolean
+  position: number           // degrees
+}
+
+// Telemetry pushed by a driver
+export interface DriverEventMap {
+  position: PositionUpdate                      // mm
+  rotate: { port: string, degrees: number }     // encoder reading
+  connection: boolean                           // connected or not
+}
+
+export type DriverListener<E extends keyof DriverEventMap> = (data: DriverEventMap[E]) => void
+
+// node-poweredup reports { degrees }, the simulator a plain number
+export type RotateEvent = number | { degrees: number }
+
+// The parts of a motor the drivers use. Which optional members exist
+// depends on the motor type and the backend.
+export interface MotorDevice {
+  readonly portName?: string
+  readonly type?: number
+  readonly typeName?: string
+  readonly currentPosition?: number   // degrees, simulated motors only
+  setPower(power: number): Promise<void>
+  brake(): Promise<void>
+  gotoAngle?(angle: number, speed: number): Promise<void>
+  rotateByDegrees?(degrees: number, speed: number): Promise<void>
+  resetZero?(): Promise<void> | void
+  setAccelerationTime?(ms: number): Promise<void>
+  setDecelerationTime?(ms: number): Promise<void>
+  on?(event: 'rotate', listener: (data: RotateEvent) => void): void
+}
+
+// Events a hub raises that the drivers and monitors listen for
+export interface HubEventMap {
+  attach: MotorDevice
+  disconnect: void
+  rssi: { rssi: number }
+  batteryLevel: { batteryLevel: number }
+}
+
+// The parts of a Powered UP hub the drivers and safety monitors use
+export interface HubLike {
+  readonly name?: string
+  connected: boolean
+  rssi?: number             // dBm
+  batteryLevel?: number     // percent
+  connect(): Promise<void>
+  disconnect(): Promise<void>
+  getDeviceAtPort?(port: string): MotorDevice | null | undefined
+  on<E extends keyof HubEventMap>(event: E, listener: (data: HubEventMap[E]) => void): void
+}
+
+// A node-poweredup PoweredUP instance, or the browser build's
+export interface PoweredUPLike {
+  on(event: 'discover', listener: (hub: HubLike) => void): void
+  scan(): unknown
+}
+
+export interface PlotterDriver {
+  readonly id: string
+  readonly name: string
+  readonly capabilities: DriverCapabilities
+  readonly hub: HubLike | null      // Powered UP hub or a stand-in, for the safety monitors
+  readonly commandQueue: CommandQueue
+
+  connect(): Promise<void>
+  disconnect(): Promise<void>
+  isConnected(): boolean
+  setCalibration(calibration: SimpleCalibration): void
+
+  // Axes
+  moveTo(x: number, y: number): Promise<void>                             // mm, absolute
+  rotateByDegrees(port: string, degrees: number, speed: number): Promise<void>
+  executeMotion(steps: MotionStep[]): Promise<void>
+  runMotor(port: string, direction: MotorDirection, speed?: number): Promise<void>
+  stopMotor(port: string): Promise<void>
+
+  // Pen angle in degrees, see PEN_POSITIONS
+  setPen(position: number): Promise<void>
+
+  // Telemetry
+  getPositionUpdate(): PositionUpdate
+  getMotorPosition(port: string): number
+  getMotorStatus(port: string): MotorStatus
+  getDeviceAtPort(port: string): MotorDevice | null
+  getRSSI(): number | null          // dBm, null when not known
+  on<E extends keyof DriverEventMap>(event: E, listener: DriverListener<E>): () => void
+}
+
+export interface DriverOptions {
+  calibration?: SimpleCalibration
+  poweredUP?: PoweredUPLike   // for hosts without window.PoweredUP
+}
+
+export interface DriverRegistration {
+  id: string
+  name: string
+  simulated: boolean
+  create: (options: DriverOptions) => PlotterDriver
+}
+
+// Listener bookkeeping shared by the drivers
+export class DriverEvents {
+  private listeners: { [E in keyof DriverEventMap]?: DriverListener<E>[] } = {}
+
+  on<E extends keyof DriverEventMap>(event: E, listener: DriverListener<E>): () => void {
+    const list = (this.listeners[event] ??= []) as DriverListener<E>[]
+    list.push(listener)
+    return () => {
+      this.listeners[event] = list.filter(l => l !== listener) as (typeof this.listeners)[E]
+    }
+  }
+
+  emit<E extends keyof DriverEventMap>(event: E, data: DriverEventMap[E]): void {
+    for (const listener of (this.listeners[event] ?? []) as DriverListener<E>[]) {
+      listener(data)
+    }
+  }
+
+  clear(): void {
+    this.listeners = {}
+  }
+}
+
+// Backends register here; the UI only ever asks the registry for a driver
+export class DriverRegistry {
+  private static drivers = new Map<string, DriverRegistration>()
+
+  // Registering an id again replaces the earlier backend
+  static register(registration: DriverRegistration): void {
+    this.drivers.set(registration.id, registration)
+  }
+
+  static create(id: string, options: DriverOptions = {}): PlotterDriver {
+    const registration = this.drivers.get(id)
+    if (!registration) {
+      throw new Error(`Unknown plotter driver ${id}; available: ${[...this.drivers.keys()].join(', ')}`)
+    }
+    return registration.create(options)
+  }
+
+  static list(): DriverRegistration[] {
+    return [...this.drivers.values()]
+  }
+
+  // The first registered driver of the requested kind
+  static defaultFor(simulated: boolean): string {
+    const registration = this.list().find(driver => driver.simulated === simulated)
+    if (!registration) {
+      throw new Error(`No ${simulated ? 'simulated' : 'hardware'} plotter driver is registered`)
+    }
+    return registration.id
+  }
+}
@@ -0,0 +1,101 @@
+// lib/PlotterProtocol.ts
+
+import type { PenAssignment, PositionUpdate } from '@/lib/types'
+import type { DriverCapabilities } from '@/lib/PlotterDriver'
+import type { PlotJob } from '@/lib/JobQueue'
+
+// Messages between the plotter server and its clients, one JSON object per
+// WebSocket frame. Requests may carry a requestId that the reply echoes.
+
+export const PROTOCOL_VERSION = 1
+export const DEFAULT_SERVER_PORT = 8765
+
+export type ClientMessage =
+  | { type: 'status', requestId?: string }
+  | { type: 'submit', requestId?: string, sequence: unknown }     // sequence JSON document
+  | { type: 'pause', requestId?: string, jobId: string }
+  | { type: 'resume', requestId?: string, jobId: string }
+  | { type: 'cancel', requestId?: string, jobId: string }
+  | { type: 'jog', requestId?: string, dx: number, dy: number }   // mm, relative
+  | { type: 'moveTo', requestId?: string, x: number, y: number }  // mm, absolute
+  | { type: 'pen', requestId?: string, position: 'up' | 'down' }
+  | { type: 'penChange', requestId?: string, jobId: string, confirm: boolean }
+
+export interface PlotterStatus {
+  connected: boolean
+  busy: boolean
+  position: PositionUpdate
+  pen: number               // degrees, see PEN_POSITIONS
+  jobs: PlotJob[]
+  clients: number
+}
+
+export interface DriverInfo {
+  id: string
+  name: string
+  capabilities: DriverCapabilities
+}
+
+export type ServerMessage =
+  | { type: 'hello', protocol: number, driver: DriverInfo, status: PlotterStatus }
+  | { type: 'ok', requestId?: string, job?: PlotJob }
+  | { type: 'error', requestId?: string, message: string }
+  | { type: 'status', requestId?: string, status: PlotterStatus }
+  | { type: 'position', position: PositionUpdate }
+  | { type: 'connection', connected: boolean }
+  | { type: 'job', job: PlotJob }
+  | { type: 'penChange', jobId: string, pen: PenAssignment, layer: number, layerCount: number }
+
+type Fields = Record<string, 'string' | 'number' | 'boolean' | 'object'>
+
+const MESSAGE_FIELDS: Record<ClientMessage['type'], Fields> = {
+  status: {},
+  submit: { sequence: 'object' },
+  pause: { jobId: 'string' },
+  resume: { jobId: 'string' },
+  cancel: { jobId: 'string' },
+  jog: { dx: 'number', dy: 'number' },
+  moveTo: { x: 'number', y: 'number' },
+  pen: { position: 'string' },
+  penChange: { jobId: 'string', confirm: 'boolean' }
+}
+
+export class PlotterProtocol {
+  // Decode a client frame, throwing on anything malformed
+  static parseClientMessage(data: string): ClientMessage {
+    let message: unknown
+    try {
+      message = JSON.parse(data)
+    } catch (error) {
+      throw new Error(`Message is not valid JSON: ${error}`)
+    }
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      throw new Error('Message must be a JSON object')
+    }
+
+    const { type, requestId } = message as Record<string, unknown>
+    if (typeof type !== 'string' || !(type in MESSAGE_FIELDS)) {
+      throw new Error(`Unknown message type ${String(type)}`)
+    }
+    if (requestId !== undefined && typeof requestId !== 'string') {
+      throw new Error('requestId must be a string')
+    }
+
+    for (const [field, kind] of Object.entries(MESSAGE_FIELDS[type as ClientMessage['type']])) {
+      const value = (message as Record<string, unknown>)[field]
+      const matches = typeof value === kind && value !== null && (kind !== 'number' || Number.isFinite(value))
+      if (!matches) {
+        throw new Error(`${type} needs ${kind} field ${field}`)
+      }
+    }
+    if (type === 'pen' && !['up', 'down'].includes((message as { position: string }).position)) {
+      throw new Error('pen position must be up or down')
+    }
+
+    return message as ClientMessage
+  }
+
+  static encode(message: ClientMessage | ServerMessage): string {
+    return JSON.stringify(message)
+  }
+}
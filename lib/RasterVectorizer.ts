@@ -0,0 +1,512 @@
+// lib/RasterVectorizer.ts
+
+import { Point, Polyline, PlotterSequence } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+import { StrokeOptimizer } from '@/lib/StrokeOptimizer'
+
+// Brightness per pixel, row-major, 0 = black and 1 = white
+export interface GrayImage {
+  width: number
+  height: number
+  data: Float32Array
+}
+
+export type RasterMode = 'contour' | 'hatch' | 'spiral' | 'stipple'
+
+export interface RasterOptions {
+  mode: RasterMode
+  width: number       // output width in mm; the height follows the aspect ratio
+  density: number     // lines per mm, or dots per mm² of solid black when stippling
+  levels?: number     // contour levels or hatch layers
+  invert?: boolean
+  seed?: number       // stippling is random but repeatable
+}
+
+export interface RasterResult {
+  width: number       // mm
+  height: number
+  polylines: Polyline[]
+}
+
+const DEFAULT_LEVELS = 4
+
+// Hatch layer angles in degrees, darker layers add more directions
+const HATCH_ANGLES = [0, 90, 45, 135]
+
+// Stippling: relaxation passes and the largest tour still improved by 2-opt
+const LLOYD_ITERATIONS = 3
+const TWO_OPT_LIMIT = 3000
+
+// Everything here is plain computation on arrays, with no DOM access, so it
+// can run inside a Web Worker
+export class RasterVectorizer {
+  // Luminance from RGBA pixels (e.g. ImageData), composited over white paper
+  static toGray(rgba: Uint8ClampedArray, width: number, height: number): GrayImage {
+    const data = new Float32Array(width * height)
+    for (let i = 0; i < width * height; i++) {
+      const alpha = rgba[i * 4 + 3] / 255
+      const luminance = (0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2]) / 255
+      data[i] = luminance * alpha + (1 - alpha)
+    }
+    return { width, height, data }
+  }
+
+  static vectorize(image: GrayImage, options: RasterOptions): RasterResult {
+    if (image.width < 2 || image.height < 2) {
+      throw new Error('Image is too small to vectorize')
+    }
+    if (!(options.width > 0) || !(options.density > 0)) {
+      throw new Error('Output width and density must be positive')
+    }
+
+    const width = options.width
+    const height = width * image.height / image.width
+    const darkness = this.darknessSampler(image, width / image.width, !!options.invert)
+    const levels = Math.max(1, Math.round(options.levels ?? DEFAULT_LEVELS))
+
+    let polylines: Polyline[]
+    switch (options.mode) {
+      case 'contour':
+        polylines = this.contours(darkness, width, height, options.density, levels)
+        break
+      case 'hatch':
+        polylines = this.hatch(darkness, width, height, options.density, levels)
+        break
+      case 'spiral':
+        polylines = this.spiral(darkness, width, height, options.density)
+        break
+      case 'stipple':
+        polylines = this.stipple(darkness, width, height, options.density, options.seed ?? 1)
+        break
+      default:
+        throw new Error(`Unknown raster mode: ${options.mode}`)
+    }
+
+    return { width, height, polylines }
+  }
+
+  // Contours and hatching are many short strokes, so their order is
+  // optimized; spiral and stipple output is already one continuous line
+  static toSequence(result: RasterResult, name: string, mode: RasterMode): PlotterSequence {
+    let moves = PathProcessor.polylinesToMoves(result.polylines)
+    if (mode === 'contour' || mode === 'hatch') {
+      moves = StrokeOptimizer.optimize(moves).moves
+    }
+    moves = PathProcessor.optimizePlotterMoves(moves)
+    return {
+      name,
+      moves,
+      boundingBox: PathProcessor.calculateBoundingBox(moves)
+    }
+  }
+
+  // Bilinear darkness (0 white .. 1 black) at a position in mm
+  private static darknessSampler(image: GrayImage, mmPerPixel: number, invert: boolean) {
+    const { width, height, data } = image
+    return (x: number, y: number): number => {
+      const px = Math.min(Math.max(x / mmPerPixel - 0.5, 0), width - 1)
+      const py = Math.min(Math.max(y / mmPerPixel - 0.5, 0), height - 1)
+      const x0 = Math.min(Math.floor(px), width - 2)
+      const y0 = Math.min(Math.floor(py), height - 2)
+      const fx = px - x0
+      const fy = py - y0
+      const i = y0 * width + x0
+      const brightness =
+        data[i] * (1 - fx) * (1 - fy) +
+        data[i + 1] * fx * (1 - fy) +
+        data[i + width] * (1 - fx) * fy +
+        data[i + width + 1] * fx * fy
+      return invert ? brightness : 1 - brightness
+    }
+  }
+
+  // Iso-darkness lines by marching squares on a grid with density cells per mm
+  private static contours(
+    darkness: (x: number, y: number) => number,
+    width: number,
+    height: number,
+    density: number,
+    levels: number
+  ): Polyline[] {
+    const cell = 1 / density
+    const cols = Math.max(2, Math.round(width / cell) + 1)
+    const rows = Math.max(2, Math.round(height / cell) + 1)
+    const stepX = width / (cols - 1)
+    const stepY = height / (rows - 1)
+
+    const grid = new Float32Array(cols * rows)
+    for (let j = 0; j < rows; j++) {
+      for (let i = 0; i < cols; i++) {
+        grid[j * cols + i] = darkness(i * stepX, j * stepY)
+      }
+    }
+
+    const polylines: Polyline[] = []
+    for (let level = 1; level <= levels; level++) {
+      const threshold = level / (levels + 1)
+      polylines.push(...this.marchingSquares(grid, cols, rows, stepX, stepY, threshold))
+    }
+    return polylines
+  }
+
+  private static marchingSquares(
+    grid: Float32Array,
+    cols: number,
+    rows: number,
+    stepX: number,
+    stepY: number,
+    threshold: number
+  ): Polyline[] {
+    // Crossing points are identified by the grid edge they lie on, so
+    // neighbouring cells share endpoints exactly and can be chained by key
+    const points = new Map<number, Point>()
+    const verticalOffset = cols * rows
+    const crossing = (i0: number, j0: number, i1: number, j1: number): number => {
+      const key = (i0 === i1 ? verticalOffset : 0) + j0 * cols + i0
+      if (!points.has(key)) {
+        const a = grid[j0 * cols + i0]
+        const b = grid[j1 * cols + i1]
+        const t = a === b ? 0.5 : (threshold - a) / (b - a)
+        points.set(key, {
+          x: (i0 + (i1 - i0) * t) * stepX,
+          y: (j0 + (j1 - j0) * t) * stepY
+        })
+      }
+      return key
+    }
+
+    const segments: [number, number][] = []
+    for (let j = 0; j < rows - 1; j++) {
+      for (let i = 0; i < cols - 1; i++) {
+        const tl = grid[j * cols + i]
+        const tr = grid[j * cols + i + 1]
+        const br = grid[(j + 1) * cols + i + 1]
+        const bl = grid[(j + 1) * cols + i]
+        const index =
+          (tl >= threshold ? 8 : 0) | (tr >= threshold ? 4 : 0) |
+          (br >= threshold ? 2 : 0) | (bl >= threshold ? 1 : 0)
+        if (index === 0 || index === 15) continue
+
+        const T = () => crossing(i, j, i + 1, j)
+        const R = () => crossing(i + 1, j, i + 1, j + 1)
+        const B = () => crossing(i, j + 1, i + 1, j + 1)
+        const L = () => crossing(i, j, i, j + 1)
+        // Saddles are resolved by the cell centre
+        const centreInside = (tl + tr + br + bl) / 4 >= threshold
+
+        switch (index) {
+          case 1: case 14: segments.push([L(), B()]); break
+          case 2: case 13: segments.push([B(), R()]); break
+          case 3: case 12: segments.push([L(), R()]); break
+          case 4: case 11: segments.push([T(), R()]); break
+          case 6: case 9: segments.push([T(), B()]); break
+          case 7: case 8: segments.push([L(), T()]); break
+          case 5:
+            if (centreInside) segments.push([L(), T()], [B(), R()])
+            else segments.push([L(), B()], [T(), R()])
+            break
+          case 10:
+            if (centreInside) segments.push([T(), R()], [L(), B()])
+            else segments.push([L(), T()], [B(), R()])
+            break
+        }
+      }
+    }
+
+    return this.chainSegments(segments, points)
+  }
+
+  // Join segments that share endpoint keys into polylines
+  private static chainSegments(segments: [number, number][], points: Map<number, Point>): Polyline[] {
+    const byPoint = new Map<number, number[]>()
+    segments.forEach(([a, b], index) => {
+      for (const key of [a, b]) {
+        const list = byPoint.get(key)
+        if (list) list.push(index)
+        else byPoint.set(key, [index])
+      }
+    })
+
+    const used = new Uint8Array(segments.length)
+    const next = (key: number): number | null => {
+      for (const index of byPoint.get(key) ?? []) {
+        if (!used[index]) return index
+      }
+      return null
+    }
+
+    const polylines: Polyline[] = []
+    for (let start = 0; start < segments.length; start++) {
+      if (used[start]) continue
+      used[start] = 1
+      const chain = [...segments[start]]
+
+      // Grow at the end, then flip and grow at the other end
+      for (let side = 0; side < 2; side++) {
+        let index = next(chain[chain.length - 1])
+        while (index !== null) {
+          used[index] = 1
+          const [a, b] = segments[index]
+          chain.push(a === chain[chain.length - 1] ? b : a)
+          index = next(chain[chain.length - 1])
+        }
+        chain.reverse()
+      }
+
+      const closed = chain.length > 2 && chain[0] === chain[chain.length - 1]
+      polylines.push({ points: chain.map(key => points.get(key)!), closed })
+    }
+    return polylines
+  }
+
+  // Parallel lines, one layer per darkness level; each layer only draws
+  // where the image is darker than its threshold and turns the lines a
+  // little further so darker areas become cross-hatched
+  private static hatch(
+    darkness: (x: number, y: number) => number,
+    width: number,
+    height: number,
+    density: number,
+    levels: number
+  ): Polyline[] {
+    const spacing = 1 / density
+    const step = spacing / 2
+    const polylines: Polyline[] = []
+
+    for (let level = 1; level <= levels; level++) {
+      const threshold = level / (levels + 1)
+      const angle = HATCH_ANGLES[(level - 1) % HATCH_ANGLES.length] * Math.PI / 180
+      const dir = { x: Math.cos(angle), y: Math.sin(angle) }
+      const normal = { x: -dir.y, y: dir.x }
+
+      // Range of line offsets and positions along the lines covering the image
+      const corners = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: 0, y: height }, { x: width, y: height }]
+      const offsets = corners.map(c => c.x * normal.x + c.y * normal.y)
+      const along = corners.map(c => c.x * dir.x + c.y * dir.y)
+      const minAlong = Math.min(...along)
+      const maxAlong = Math.max(...along)
+
+      let reverse = false
+      for (let offset = Math.min(...offsets) + spacing / 2; offset < Math.max(...offsets); offset += spacing) {
+        const runs: Point[][] = []
+        let run: Point[] | null = null
+
+        for (let s = minAlong; s <= maxAlong + 1e-9; s += step) {
+          const point = { x: normal.x * offset + dir.x * s, y: normal.y * offset + dir.y * s }
+          const inside = point.x >= 0 && point.x <= width && point.y >= 0 && point.y <= height
+          if (inside && darkness(point.x, point.y) >= threshold) {
+            if (!run) {
+              run = [point]
+              runs.push(run)
+            } else {
+              // Straight runs only need their end points
+              run[1] = point
+            }
+          } else {
+            run = null
+          }
+        }
+
+        // Alternate direction line by line
+        const lineRuns = runs.filter(r => r.length === 2)
+        if (reverse) lineRuns.reverse().forEach(r => r.reverse())
+        for (const points of lineRuns) polylines.push({ points, closed: false })
+        if (lineRuns.length > 0) reverse = !reverse
+      }
+    }
+
+    return polylines
+  }
+
+  // One Archimedean spiral from the centre out, rings 1/density apart, with
+  // a wiggle whose amplitude follows the darkness underneath
+  private static spiral(
+    darkness: (x: number, y: number) => number,
+    width: number,
+    height: number,
+    density: number
+  ): Polyline[] {
+    const spacing = 1 / density
+    const cx = width / 2
+    const cy = height / 2
+    const maxRadius = Math.min(width, height) / 2 - spacing / 2
+    const wavelength = spacing
+    const step = wavelength / 6
+    const points: Point[] = []
+
+    let theta = 0
+    let travelled = 0
+    while (true) {
+      const radius = spacing * theta / (2 * Math.PI)
+      if (radius > maxRadius) break
+
+      const baseX = cx + radius * Math.cos(theta)
+      const baseY = cy + radius * Math.sin(theta)
+      const amplitude = 0.45 * spacing * darkness(baseX, baseY)
+      const offset = amplitude * Math.sin(2 * Math.PI * travelled / wavelength)
+      points.push({
+        x: cx + (radius + offset) * Math.cos(theta),
+        y: cy + (radius + offset) * Math.sin(theta)
+      })
+
+      // Constant arc length per step, guarded near the centre
+      theta += step / Math.max(radius, spacing)
+      travelled += step
+    }
+
+    return points.length > 1 ? [{ points, closed: false }] : []
+  }
+
+  // TSP art: dots placed with probability proportional to darkness, evened
+  // out by weighted Lloyd relaxation, then joined by one short tour
+  private static stipple(
+    darkness: (x: number, y: number) => number,
+    width: number,
+    height: number,
+    density: number,
+    seed: number
+  ): Polyline[] {
+    const random = this.random(seed)
+
+    // Expected dot count from the total darkness
+    const sampleStep = Math.max(0.25, Math.min(width, height) / 200)
+    let totalDarkness = 0
+    const samples: { point: Point, weight: number }[] = []
+    for (let y = sampleStep / 2; y < height; y += sampleStep) {
+      for (let x = sampleStep / 2; x < width; x += sampleStep) {
+        const weight = darkness(x, y)
+        totalDarkness += weight * sampleStep * sampleStep
+        if (weight > 0.01) samples.push({ point: { x, y }, weight })
+      }
+    }
+    const count = Math.round(totalDarkness * density)
+    if (count < 2) return []
+
+    // Rejection sampling
+    let dots: Point[] = []
+    for (let attempts = 0; dots.length < count && attempts < count * 200; attempts++) {
+      const point = { x: random() * width, y: random() * height }
+      if (random() < darkness(point.x, point.y)) dots.push(point)
+    }
+    if (dots.length < 2) return []
+
+    // Move each dot to the darkness-weighted centroid of its Voronoi cell,
+    // approximated with the sample grid
+    for (let iteration = 0; iteration < LLOYD_ITERATIONS; iteration++) {
+      const index = this.spatialIndex(dots, width, height)
+      const sums = dots.map(() => ({ x: 0, y: 0, w: 0 }))
+      for (const sample of samples) {
+        const nearest = index.nearest(sample.point)
+        sums[nearest].x += sample.point.x * sample.weight
+        sums[nearest].y += sample.point.y * sample.weight
+        sums[nearest].w += sample.weight
+      }
+      dots = dots.map((dot, i) => sums[i].w > 0 ? { x: sums[i].x / sums[i].w, y: sums[i].y / sums[i].w } : dot)
+    }
+
+    return [{ points: this.tour(dots, width, height), closed: false }]
+  }
+
+  // Nearest-neighbour tour, improved by 2-opt when small enough
+  private static tour(dots: Point[], width: number, height: number): Point[] {
+    const index = this.spatialIndex(dots, width, height)
+    const order: Point[] = []
+    let current = 0
+    for (let i = 0; i < dots.length; i++) {
+      index.remove(current)
+      order.push(dots[current])
+      const next = index.nearest(dots[current])
+      if (next === -1) break
+      current = next
+    }
+
+    if (order.length <= TWO_OPT_LIMIT) {
+      const d = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+      for (let pass = 0; pass < 5; pass++) {
+        let improved = false
+        for (let i = 0; i < order.length - 2; i++) {
+          for (let j = i + 2; j < order.length - 1; j++) {
+            const before = d(order[i], order[i + 1]) + d(order[j], order[j + 1])
+            const after = d(order[i], order[j]) + d(order[i + 1], order[j + 1])
+            if (after < before - 1e-9) {
+              // Reverse the run between the two edges
+              for (let a = i + 1, b = j; a < b; a++, b--) {
+                [order[a], order[b]] = [order[b], order[a]]
+              }
+              improved = true
+            }
+          }
+        }
+        if (!improved) break
+      }
+    }
+
+    return order
+  }
+
+  // Uniform grid over the points for nearest-neighbour queries
+  private static spatialIndex(points: Point[], width: number, height: number) {
+    const cellSize = Math.max(Math.sqrt(width * height / points.length), 1e-3)
+    const cols = Math.max(1, Math.ceil(width / cellSize))
+    const rows = Math.max(1, Math.ceil(height / cellSize))
+    const cells: number[][] = Array.from({ length: cols * rows }, () => [])
+    const cellOf = (p: Point) => {
+      const i = Math.min(cols - 1, Math.max(0, Math.floor(p.x / cellSize)))
+      const j = Math.min(rows - 1, Math.max(0, Math.floor(p.y / cellSize)))
+      return { i, j }
+    }
+    points.forEach((point, index) => {
+      const { i, j } = cellOf(point)
+      cells[j * cols + i].push(index)
+    })
+    let remaining = points.length
+
+    return {
+      remove(index: number) {
+        const { i, j } = cellOf(points[index])
+        const cell = cells[j * cols + i]
+        const position = cell.indexOf(index)
+        if (position !== -1) {
+          cell.splice(position, 1)
+          remaining--
+        }
+      },
+      // Search rings of cells outwards until nothing closer can exist
+      nearest(target: Point): number {
+        if (remaining === 0) return -1
+        const { i: ci, j: cj } = cellOf(target)
+        let best = -1
+        let bestDistance = Infinity
+        for (let ring = 0; ring <= Math.max(cols, rows); ring++) {
+          for (let j = cj - ring; j <= cj + ring; j++) {
+            for (let i = ci - ring; i <= ci + ring; i++) {
+              if (i < 0 || j < 0 || i >= cols || j >= rows) continue
+              if (Math.max(Math.abs(i - ci), Math.abs(j - cj)) !== ring) continue
+              for (const index of cells[j * cols + i]) {
+                const distance = Math.hypot(points[index].x - target.x, points[index].y - target.y)
+                if (distance < bestDistance) {
+                  bestDistance = distance
+                  best = index
+                }
+              }
+            }
+          }
+          if (best !== -1 && bestDistance <= ring * cellSize) break
+        }
+        return best
+      }
+    }
+  }
+
+  // Small seeded generator (mulberry32)
+  private static random(seed: number): () => number {
+    let state = seed >>> 0
+    return () => {
+      state = (state + 0x6D2B79F5) >>> 0
+      let t = state
+      t = Math.imul(t ^ (t >>> 15), t | 1)
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+  }
+}
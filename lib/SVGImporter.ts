@@ -0,0 +1,427 @@
+// lib/SVGImporter.ts
+
+import { CalibrationSettings, DEFAULT_PENS, Matrix, PenAssignment, Polyline, PlotterSequence } from '@/lib/types'
+import { XMLElement, XMLParser } from '@/lib/XMLParser'
+import { AffineTransform } from '@/lib/AffineTransform'
+import { SVGPathInterpreter } from '@/lib/SVGPathInterpreter'
+import { CurveFlattener } from '@/lib/CurveFlattener'
+import { PathProcessor } from '@/lib/pathUtils'
+import { FillRule, HatchFill, HatchOptions } from '@/lib/HatchFill'
+import { HiddenLineRemover } from '@/lib/HiddenLineRemover'
+
+export interface SVGShape {
+  element: string
+  id?: string
+  polylines: Polyline[]  // in mm, document transforms applied
+  fill?: SVGFill         // set when the element is filled
+  hatching?: Polyline[]  // hatch lines covering the fill
+  stroke?: string        // stroke paint, when not "none"
+  layer?: string         // label of the enclosing Inkscape layer
+}
+
+export interface SVGFill {
+  color: string
+  rule: FillRule
+  opacity: number        // fill-opacity combined with the opacity of the element and its groups
+}
+
+export interface SVGImportOptions {
+  tolerance?: number                  // max curve flattening error in mm
+  calibration?: CalibrationSettings   // limits the tolerance to the plotter's resolution
+  hatch?: HatchOptions | false        // how filled shapes are hatched, false to leave them hollow
+  removeHidden?: boolean              // clip strokes under opaque fills drawn above them, default true
+}
+
+// How strokes are assigned to pens: one pen per stroke colour, one per
+// Inkscape layer, or everything with a single pen
+export type PenMapping = 'color' | 'layer' | 'single'
+
+export interface SVGSequenceOptions {
+  pens?: PenMapping   // default 'color'
+}
+
+export interface SVGImportResult {
+  width: number   // document size in mm
+  height: number
+  shapes: SVGShape[]
+}
+
+// Millimetres per unit, using the CSS reference of 96 px per inch
+const UNIT_TO_MM: Record<string, number> = {
+  '': 25.4 / 96,
+  px: 25.4 / 96,
+  pt: 25.4 / 72,
+  pc: 25.4 / 6,
+  in: 25.4,
+  cm: 10,
+  mm: 1,
+  q: 0.25
+}
+
+// Inherited paint properties, as written in the document, and the
+// Inkscape layer an element sits in
+interface PaintContext {
+  fill?: string
+  fillRule?: string
+  fillOpacity?: string
+  stroke?: string
+  opacity: number   // not inherited but multiplies down the tree
+  layer?: string
+}
+
+const DEFAULT_COLOR = '#000000'
+
+// CSS colour keywords likely to be used for pens
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff',
+  yellow: '#ffff00', cyan: '#00ffff', aqua: '#00ffff', magenta: '#ff00ff', fuchsia: '#ff00ff',
+  gray: '#808080', grey: '#808080', silver: '#c0c0c0', maroon: '#800000', olive: '#808000',
+  lime: '#00ff00', teal: '#008080', navy: '#000080', purple: '#800080', orange: '#ffa500',
+  brown: '#a52a2a', pink: '#ffc0cb'
+}
+
+// Elements without area are never filled
+const UNFILLABLE_ELEMENTS = new Set(['line'])
+
+// Containers and resources whose children are never rendered directly
+const SKIPPED_ELEMENTS = new Set([
+  'defs', 'clipPath', 'mask', 'marker', 'pattern', 'symbol',
+  'metadata', 'title', 'desc', 'style', 'script', 'linearGradient', 'radialGradient'
+])
+
+export class SVGImporter {
+  static import(text: string, options: SVGImportOptions = {}): SVGImportResult {
+    const root = XMLParser.parse(text)
+    if (this.localName(root.name) !== 'svg') {
+      throw new Error('Not an SVG document')
+    }
+
+    const { width, height, matrix } = this.documentTransform(root)
+    const tolerance = CurveFlattener.resolveTolerance(options.tolerance, options.calibration)
+    const shapes: SVGShape[] = []
+    this.walk(root, matrix, tolerance, this.paint(root, { opacity: 1 }), options.hatch ?? {}, shapes)
+
+    return {
+      width,
+      height,
+      shapes: options.removeHidden === false ? shapes : HiddenLineRemover.apply(shapes)
+    }
+  }
+
+  // Pens are numbered in order of first use and each becomes one layer of
+  // moves. Within a pen, fills are hatched right after their outline.
+  static toSequence(
+    result: SVGImportResult,
+    name: string,
+    options: SVGSequenceOptions = {}
+  ): PlotterSequence {
+    const mapping = options.pens ?? 'color'
+    const groups = new Map<string, { pen: PenAssignment, polylines: Polyline[] }>()
+    const add = (key: string, color: string, label: string | undefined, polylines: Polyline[]) => {
+      if (polylines.length === 0) return
+      let group = groups.get(key)
+      if (!group) {
+        const id = groups.size + 1
+        group = { pen: { id, name: label ?? `Pen ${id}`, color }, polylines: [] }
+        groups.set(key, group)
+      }
+      group.polylines.push(...polylines)
+    }
+
+    for (const shape of result.shapes) {
+      const fillColor = shape.fill ? this.normalizeColor(shape.fill.color) : null
+      const strokeColor = (shape.stroke ? this.normalizeColor(shape.stroke) : null) ?? fillColor ?? DEFAULT_COLOR
+      const hatching = shape.hatching ?? []
+
+      if (mapping === 'color') {
+        add(strokeColor, strokeColor, undefined, shape.polylines)
+        add(fillColor ?? strokeColor, fillColor ?? strokeColor, undefined, hatching)
+      } else if (mapping === 'layer') {
+        add(shape.layer ?? '', strokeColor, shape.layer ?? 'Default', [...shape.polylines, ...hatching])
+      } else {
+        add('', DEFAULT_COLOR, DEFAULT_PENS[0].name, [...shape.polylines, ...hatching])
+      }
+    }
+
+    const layers = [...groups.values()]
+    const moves = layers.flatMap(({ pen, polylines }) =>
+      PathProcessor.assignPen(PathProcessor.polylinesToMoves(polylines), pen.id)
+    )
+    return {
+      name,
+      moves,
+      boundingBox: PathProcessor.calculateBoundingBox(moves),
+      pens: layers.length > 0 ? layers.map(layer => layer.pen) : DEFAULT_PENS
+    }
+  }
+
+  // Maps user units to millimetres from width/height and viewBox
+  private static documentTransform(root: XMLElement): { width: number, height: number, matrix: Matrix } {
+    const viewBox = root.attributes.viewBox
+      ?.split(/[\s,]+/)
+      .filter(Boolean)
+      .map(Number)
+    const hasViewBox = viewBox?.length === 4 && viewBox.every(Number.isFinite) &&
+      viewBox[2] > 0 && viewBox[3] > 0
+
+    const width = this.parseLength(root.attributes.width) ??
+      (hasViewBox ? viewBox![2] * UNIT_TO_MM.px : null)
+    const height = this.parseLength(root.attributes.height) ??
+      (hasViewBox ? viewBox![3] * UNIT_TO_MM.px : null)
+
+    if (!hasViewBox) {
+      return {
+        width: width ?? 0,
+        height: height ?? 0,
+        matrix: AffineTransform.scale(UNIT_TO_MM.px)
+      }
+    }
+
+    const [minX, minY, vbWidth, vbHeight] = viewBox!
+    const docWidth = width ?? vbWidth * UNIT_TO_MM.px
+    const docHeight = height ?? vbHeight * UNIT_TO_MM.px
+    let scaleX = docWidth / vbWidth
+    let scaleY = docHeight / vbHeight
+    let offsetX = 0
+    let offsetY = 0
+
+    // Default preserveAspectRatio is "xMidYMid meet"
+    const aspect = root.attributes.preserveAspectRatio?.trim() ?? 'xMidYMid meet'
+    if (!aspect.startsWith('none')) {
+      const scale = aspect.endsWith('slice')
+        ? Math.max(scaleX, scaleY)
+        : Math.min(scaleX, scaleY)
+      const alignX = aspect.includes('xMin') ? 0 : aspect.includes('xMax') ? 1 : 0.5
+      const alignY = aspect.includes('YMin') ? 0 : aspect.includes('YMax') ? 1 : 0.5
+      offsetX = (docWidth - vbWidth * scale) * alignX
+      offsetY = (docHeight - vbHeight * scale) * alignY
+      scaleX = scale
+      scaleY = scale
+    }
+
+    return {
+      width: docWidth,
+      height: docHeight,
+      matrix: [scaleX, 0, 0, scaleY, offsetX - minX * scaleX, offsetY - minY * scaleY]
+    }
+  }
+
+  // Length in mm, or null when missing or relative (e.g. percentages)
+  private static parseLength(value: string | undefined): number | null {
+    if (!value) return null
+    const match = /^\s*([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)\s*([a-zA-Z]*)\s*$/.exec(value)
+    if (!match) return null
+    const factor = UNIT_TO_MM[match[2].toLowerCase()]
+    return factor === undefined ? null : Number(match[1]) * factor
+  }
+
+  private static walk(
+    element: XMLElement,
+    parentMatrix: Matrix,
+    tolerance: number,
+    parentPaint: PaintContext,
+    hatch: HatchOptions | false,
+    shapes: SVGShape[]
+  ) {
+    for (const child of element.children) {
+      const name = this.localName(child.name)
+      if (SKIPPED_ELEMENTS.has(name)) continue
+      if (this.isHidden(child)) continue
+
+      const matrix = AffineTransform.multiply(
+        parentMatrix,
+        AffineTransform.parse(child.attributes.transform)
+      )
+      const paint = this.paint(child, parentPaint)
+
+      if (name === 'g' || name === 'svg' || name === 'a' || name === 'switch') {
+        this.walk(child, matrix, tolerance, paint, hatch, shapes)
+        continue
+      }
+
+      const d = this.shapeToPath(name, child.attributes)
+      if (!d) continue
+
+      // Flatten in user units with the tolerance converted from mm
+      const userTolerance = tolerance / (AffineTransform.scaleFactor(matrix) || 1)
+      const polylines = SVGPathInterpreter.interpret(d, userTolerance).map(polyline => ({
+        ...polyline,
+        points: polyline.points.map(point => AffineTransform.apply(matrix, point))
+      }))
+
+      if (polylines.length === 0) continue
+
+      const shape: SVGShape = { element: name, id: child.attributes.id, polylines }
+      if (paint.stroke && paint.stroke !== 'none') shape.stroke = paint.stroke
+      if (paint.layer !== undefined) shape.layer = paint.layer
+      const fill = UNFILLABLE_ELEMENTS.has(name) ? null : this.resolveFill(paint)
+      if (fill) {
+        shape.fill = fill
+        if (hatch !== false) {
+          shape.hatching = HatchFill.fill(polylines, { ...hatch, fillRule: fill.rule })
+        }
+      }
+      shapes.push(shape)
+    }
+  }
+
+  // Express each basic shape as path data so one interpreter handles everything
+  private static shapeToPath(name: string, attrs: Record<string, string>): string | null {
+    const num = (key: string, fallback = 0) => {
+      const value = parseFloat(attrs[key])
+      return Number.isFinite(value) ? value : fallback
+    }
+
+    switch (name) {
+      case 'path':
+        return attrs.d || null
+
+      case 'line':
+        return `M${num('x1')},${num('y1')} L${num('x2')},${num('y2')}`
+
+      case 'polyline':
+      case 'polygon': {
+        const values = (attrs.points ?? '').split(/[\s,]+/).filter(Boolean).map(Number)
+        if (values.length < 4) return null
+        const pairs: string[] = []
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          pairs.push(`${values[i]},${values[i + 1]}`)
+        }
+        return `M${pairs.join(' L')}${name === 'polygon' ? ' Z' : ''}`
+      }
+
+      case 'rect': {
+        const x = num('x')
+        const y = num('y')
+        const w = num('width')
+        const h = num('height')
+        if (w <= 0 || h <= 0) return null
+
+        // A missing rx or ry takes the value of the other one
+        let rx = attrs.rx !== undefined ? num('rx') : num('ry')
+        let ry = attrs.ry !== undefined ? num('ry') : num('rx')
+        rx = Math.min(Math.max(rx, 0), w / 2)
+        ry = Math.min(Math.max(ry, 0), h / 2)
+
+        if (rx === 0 || ry === 0) {
+          return `M${x},${y} H${x + w} V${y + h} H${x} Z`
+        }
+        return `M${x + rx},${y} H${x + w - rx} A${rx},${ry} 0 0 1 ${x + w},${y + ry}` +
+          ` V${y + h - ry} A${rx},${ry} 0 0 1 ${x + w - rx},${y + h}` +
+          ` H${x + rx} A${rx},${ry} 0 0 1 ${x},${y + h - ry}` +
+          ` V${y + ry} A${rx},${ry} 0 0 1 ${x + rx},${y} Z`
+      }
+
+      case 'circle':
+      case 'ellipse': {
+        const cx = num('cx')
+        const cy = num('cy')
+        const rx = name === 'circle' ? num('r') : num('rx')
+        const ry = name === 'circle' ? num('r') : num('ry')
+        if (rx <= 0 || ry <= 0) return null
+        return `M${cx + rx},${cy} A${rx},${ry} 0 0 1 ${cx - rx},${cy}` +
+          ` A${rx},${ry} 0 0 1 ${cx + rx},${cy} Z`
+      }
+
+      default:
+        return null
+    }
+  }
+
+  // Fill properties from the style attribute win over presentation
+  // attributes; anything unset or "inherit" comes from the parent
+  private static paint(element: XMLElement, parent: PaintContext): PaintContext {
+    const style = this.parseStyle(element.attributes.style)
+    const read = (property: string, inherited: string | undefined) => {
+      const value = style[property] ?? element.attributes[property]
+      return value === undefined || value.trim() === 'inherit' ? inherited : value.trim()
+    }
+    return {
+      fill: read('fill', parent.fill),
+      fillRule: read('fill-rule', parent.fillRule),
+      fillOpacity: read('fill-opacity', parent.fillOpacity),
+      stroke: read('stroke', parent.stroke),
+      opacity: parent.opacity * this.parseOpacity(read('opacity', undefined)),
+      layer: this.layerLabel(element) ?? parent.layer
+    }
+  }
+
+  // Only fills the document asks for are hatched. SVG paints black by
+  // default, but line art for plotters rarely means that.
+  private static resolveFill(paint: PaintContext): SVGFill | null {
+    const color = paint.fill
+    if (!color || color === 'none' || color === 'transparent') return null
+    const opacity = paint.opacity * this.parseOpacity(paint.fillOpacity)
+    if (opacity === 0) return null
+    return { color, rule: paint.fillRule === 'evenodd' ? 'evenodd' : 'nonzero', opacity }
+  }
+
+  // Numbers or percentages, clamped to 0..1; missing means opaque
+  private static parseOpacity(value: string | undefined): number {
+    if (value === undefined) return 1
+    const number = parseFloat(value)
+    if (!Number.isFinite(number)) return 1
+    const opacity = value.trim().endsWith('%') ? number / 100 : number
+    return Math.min(Math.max(opacity, 0), 1)
+  }
+
+  // Label of an Inkscape layer group, falling back to its id
+  private static layerLabel(element: XMLElement): string | undefined {
+    const attribute = (local: string) => {
+      const key = Object.keys(element.attributes).find(name => this.localName(name) === local && name.includes(':'))
+      return key === undefined ? undefined : element.attributes[key]
+    }
+    if (this.localName(element.name) !== 'g' || attribute('groupmode') !== 'layer') return undefined
+    return attribute('label') ?? element.attributes.id ?? 'Layer'
+  }
+
+  // #rrggbb for hex, rgb() and common keywords; null for anything else,
+  // such as gradients
+  private static normalizeColor(value: string): string | null {
+    const color = value.trim().toLowerCase()
+    if (NAMED_COLORS[color]) return NAMED_COLORS[color]
+
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/.exec(color)
+    if (hex) {
+      const digits = hex[1].length === 3 ? hex[1].replace(/./g, digit => digit + digit) : hex[1]
+      return `#${digits}`
+    }
+
+    const rgb = /^rgba?\(([^)]*)\)$/.exec(color)
+    if (rgb) {
+      const channels = rgb[1].split(/[\s,/]+/).filter(Boolean).slice(0, 3).map(channel =>
+        channel.endsWith('%') ? parseFloat(channel) * 2.55 : parseFloat(channel)
+      )
+      if (channels.length === 3 && channels.every(Number.isFinite)) {
+        return '#' + channels
+          .map(channel => Math.round(Math.min(Math.max(channel, 0), 255)).toString(16).padStart(2, '0'))
+          .join('')
+      }
+    }
+    return null
+  }
+
+  private static isHidden(element: XMLElement): boolean {
+    const style = this.parseStyle(element.attributes.style)
+    const display = style.display ?? element.attributes.display
+    const visibility = style.visibility ?? element.attributes.visibility
+    return display === 'none' || visibility === 'hidden'
+  }
+
+  private static parseStyle(style: string | undefined): Record<string, string> {
+    const result: Record<string, string> = {}
+    if (!style) return result
+    for (const declaration of style.split(';')) {
+      const separator = declaration.indexOf(':')
+      if (separator === -1) continue
+      result[declaration.slice(0, separator).trim()] = declaration.slice(separator + 1).trim()
+    }
+    return result
+  }
+
+  // Strip namespace prefixes such as "svg:path"
+  private static localName(name: string): string {
+    const separator = name.indexOf(':')
+    return separator === -1 ? name : name.slice(separator + 1)
+  }
+}
@@ -0,0 +1,214 @@
+// lib/SVGPathInterpreter.ts
+
+import parseSVG from 'svg-path-parser'
+import { Point, Polyline, DEFAULT_CURVE_TOLERANCE } from '@/lib/types'
+import { CurveFlattener } from '@/lib/CurveFlattener'
+
+interface InterpreterState {
+  current: Point
+  subpathStart: Point
+  // Control points of the previous segment, used by the S and T shorthands
+  lastCubicControl: Point | null
+  lastQuadControl: Point | null
+}
+
+export class SVGPathInterpreter {
+  // Turns an SVG path "d" attribute into flattened polylines, one per subpath.
+  // Every command (absolute and relative) is supported. Curves are flattened
+  // so no chord deviates more than tolerance (in path units) from the curve.
+  static interpret(d: string, tolerance: number = DEFAULT_CURVE_TOLERANCE): Polyline[] {
+    const commands = parseSVG(d)
+    const polylines: Polyline[] = []
+    let active: Polyline | null = null
+
+    const state: InterpreterState = {
+      current: { x: 0, y: 0 },
+      subpathStart: { x: 0, y: 0 },
+      lastCubicControl: null,
+      lastQuadControl: null
+    }
+
+    // Drawing commands after a Z (or without any M) continue from the current point
+    const ensureSubpath = (): Polyline => {
+      if (!active) {
+        active = { points: [{ ...state.current }], closed: false }
+        polylines.push(active)
+      }
+      return active
+    }
+
+    const lineTo = (point: Point) => {
+      ensureSubpath().points.push(point)
+      state.current = point
+    }
+
+    for (const cmd of commands) {
+      const relative = cmd.code === cmd.code.toLowerCase()
+      const origin = relative ? state.current : { x: 0, y: 0 }
+      const abs = (x: number | undefined, y: number | undefined): Point => ({
+        x: (x ?? 0) + origin.x,
+        y: (y ?? 0) + origin.y
+      })
+
+      let cubicControl: Point | null = null
+      let quadControl: Point | null = null
+
+      switch (cmd.code.toUpperCase()) {
+        case 'M': {
+          const point = abs(cmd.x, cmd.y)
+          active = { points: [point], closed: false }
+          polylines.push(active)
+          state.current = point
+          state.subpathStart = point
+          break
+        }
+
+        case 'L':
+          lineTo(abs(cmd.x, cmd.y))
+          break
+
+        case 'H':
+          lineTo({ x: (cmd.x ?? 0) + (relative ? state.current.x : 0), y: state.current.y })
+          break
+
+        case 'V':
+          lineTo({ x: state.current.x, y: (cmd.y ?? 0) + (relative ? state.current.y : 0) })
+          break
+
+        case 'C':
+        case 'S': {
+          const start = state.current
+          // S reflects the previous cubic control point around the current point
+          const c1 = cmd.code.toUpperCase() === 'C'
+            ? abs(cmd.x1, cmd.y1)
+            : this.reflect(state.lastCubicControl, start)
+          const c2 = abs(cmd.x2, cmd.y2)
+          const end = abs(cmd.x, cmd.y)
+          ensureSubpath()
+          CurveFlattener.cubic(start, c1, c2, end, tolerance).forEach(lineTo)
+          cubicControl = c2
+          break
+        }
+
+        case 'Q':
+        case 'T': {
+          const start = state.current
+          const control = cmd.code.toUpperCase() === 'Q'
+            ? abs(cmd.x1, cmd.y1)
+            : this.reflect(state.lastQuadControl, start)
+          const end = abs(cmd.x, cmd.y)
+          ensureSubpath()
+          CurveFlattener.quadratic(start, control, end, tolerance).forEach(lineTo)
+          quadControl = control
+          break
+        }
+
+        case 'A': {
+          const start = state.current
+          const end = abs(cmd.x, cmd.y)
+          ensureSubpath()
+          this.sampleArc(
+            start,
+            end,
+            cmd.rx ?? 0,
+            cmd.ry ?? 0,
+            cmd.xAxisRotation ?? 0,
+            !!cmd.largeArc,
+            !!cmd.sweep,
+            tolerance
+          ).forEach(lineTo)
+          break
+        }
+
+        case 'Z': {
+          if (active) {
+            const last = active.points[active.points.length - 1]
+            if (last.x !== state.subpathStart.x || last.y !== state.subpathStart.y) {
+              active.points.push({ ...state.subpathStart })
+            }
+            active.closed = true
+          }
+          state.current = state.subpathStart
+          active = null
+          break
+        }
+      }
+
+      state.lastCubicControl = cubicControl
+      state.lastQuadControl = quadControl
+    }
+
+    // A lone moveto draws nothing
+    return polylines.filter(polyline => polyline.points.length > 1)
+  }
+
+  // Reflection of a control point around the current point; falls back to
+  // the current point when the previous segment was not a matching curve
+  private static reflect(control: Point | null, around: Point): Point {
+    if (!control) return { ...around }
+    return {
+      x: 2 * around.x - control.x,
+      y: 2 * around.y - control.y
+    }
+  }
+
+  // Points along an elliptical arc, excluding the start point.
+  // Uses the endpoint to center conversion from the SVG spec (F.6.5).
+  private static sampleArc(
+    start: Point,
+    end: Point,
+    rx: number,
+    ry: number,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    tolerance: number
+  ): Point[] {
+    if (start.x === end.x && start.y === end.y) return []
+    rx = Math.abs(rx)
+    ry = Math.abs(ry)
+    if (rx === 0 || ry === 0) return [end]
+
+    const phi = rotation * Math.PI / 180
+    const cosPhi = Math.cos(phi)
+    const sinPhi = Math.sin(phi)
+
+    const dx2 = (start.x - end.x) / 2
+    const dy2 = (start.y - end.y) / 2
+    const x1p = cosPhi * dx2 + sinPhi * dy2
+    const y1p = -sinPhi * dx2 + cosPhi * dy2
+
+    // Scale up radii that are too small to span the endpoints
+    const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry)
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda)
+      ry *= Math.sqrt(lambda)
+    }
+
+    const numerator = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p
+    const denominator = rx * rx * y1p * y1p + ry * ry * x1p * x1p
+    const sign = largeArc !== sweep ? 1 : -1
+    const coef = sign * Math.sqrt(Math.max(0, numerator / denominator))
+    const cxp = coef * rx * y1p / ry
+    const cyp = -coef * ry * x1p / rx
+
+    const cx = cosPhi * cxp - sinPhi * cyp + (start.x + end.x) / 2
+    const cy = sinPhi * cxp + cosPhi * cyp + (start.y + end.y) / 2
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) =>
+      Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+
+    const theta1 = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry)
+    let deltaTheta = angle(
+      (x1p - cxp) / rx, (y1p - cyp) / ry,
+      (-x1p - cxp) / rx, (-y1p - cyp) / ry
+    )
+    if (!sweep && deltaTheta > 0) deltaTheta -= 2 * Math.PI
+    if (sweep && deltaTheta < 0) deltaTheta += 2 * Math.PI
+
+    const points = CurveFlattener.arc(cx, cy, rx, ry, phi, theta1, deltaTheta, tolerance)
+    // Land exactly on the endpoint to avoid drift
+    points[points.length - 1] = end
+    return points
+  }
+}
@@ -0,0 +1,167 @@
+// lib/SequenceExporter.ts
+
+import { HOME_POSITION, MOVEMENT_BOUNDS, PaperSize, Point, PlotterSequence } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export interface GCodeExportOptions {
+  moveSpeed?: number    // mm/s for pen-up travel
+  drawSpeed?: number    // mm/s while drawing
+  penUpZ?: number
+  penDownZ?: number
+  flipY?: boolean       // G-code is Y-up; measure Y from the paper's bottom edge (default true)
+  penChangePosition?: Point   // drawing coordinates; default the paper's top-right corner
+}
+
+export interface SVGExportOptions {
+  includeTravel?: boolean       // pen-up travel in its own layer
+  includeBoundingBox?: boolean
+  strokeWidth?: number          // mm
+}
+
+// Same defaults as PathExecutor
+const DEFAULT_MOVE_SPEED = 50
+const DEFAULT_DRAW_SPEED = 30
+
+export class SequenceExporter {
+  // Standard G-code in millimetres and absolute coordinates, Y-up with the
+  // origin at the paper's bottom-left corner. The pen is lifted and lowered
+  // on Z, which GCodeImporter reads back. Each pen layer after the first
+  // starts with an M0 pause for the pen swap. A move's own speed becomes its F.
+  static toGCode(sequence: PlotterSequence, options: GCodeExportOptions = {}): string {
+    const moveFeed = (options.moveSpeed ?? DEFAULT_MOVE_SPEED) * 60
+    const drawFeed = (options.drawSpeed ?? DEFAULT_DRAW_SPEED) * 60
+    const penUp = `G0 Z${this.format(options.penUpZ ?? 5)}`
+    const penDown = `G1 Z${this.format(options.penDownZ ?? 0)} F${this.format(drawFeed)}`
+    const { minX, minY, maxX, maxY } = sequence.boundingBox
+    const paper = this.paper(sequence)
+    const flip = options.flipY ?? true
+    const y = (value: number) => this.format(flip ? paper.height - value : value)
+    const [low, high] = flip ? [maxY, minY] : [minY, maxY]
+    const park = options.penChangePosition ?? { x: paper.width, y: 0 }
+    const feed = (speed: number | undefined, fallback: number) => this.format(speed !== undefined ? speed * 60 : fallback)
+
+    const lines = [
+      `; ${sequence.name}`,
+      `; Bounding box: X${this.format(minX)}..${this.format(maxX)} Y${y(low)}..${y(high)} mm`,
+      `; Paper: ${this.format(paper.width)}x${this.format(paper.height)} mm`,
+      'G21 ; millimetres',
+      'G90 ; absolute positioning',
+      penUp
+    ]
+
+    const layers = PathProcessor.splitLayers(sequence.moves, sequence.pens)
+    layers.forEach(({ pen, moves }, index) => {
+      if (layers.length > 1) {
+        lines.push(`; Layer ${index + 1}: ${pen.name}${pen.color ? ` ${pen.color}` : ''}`)
+      }
+      if (index > 0) {
+        lines.push(`G0 X${this.format(park.x)} Y${y(park.y)} F${this.format(moveFeed)}`)
+        lines.push(`M0 ; Load ${pen.name}`)
+      }
+
+      // Per-move speeds override the default feeds; F is modal, so a draw
+      // feed is only written when it changes
+      for (const stroke of PathProcessor.movesToPolylines(moves)) {
+        const [start, ...rest] = stroke.points
+        lines.push(`G0 X${this.format(start.x)} Y${y(start.y)} F${feed(stroke.speeds?.[0], moveFeed)}`)
+        lines.push(penDown)
+        let current = this.format(drawFeed)
+        rest.forEach((point, i) => {
+          const next = feed(stroke.speeds?.[i + 1], drawFeed)
+          lines.push(`G1 X${this.format(point.x)} Y${y(point.y)}${next !== current ? ` F${next}` : ''}`)
+          current = next
+        })
+        lines.push(penUp)
+      }
+    })
+
+    lines.push(`G0 X${this.format(HOME_POSITION.x)} Y${y(HOME_POSITION.y)}`)
+    lines.push('M2')
+    return lines.join('\n') + '\n'
+  }
+
+  // SVG at the paper's physical size with one path per pen-down stroke.
+  // Travel, the bounding box and each pen go into separate Inkscape layers.
+  static toSVG(sequence: PlotterSequence, options: SVGExportOptions = {}): string {
+    const { width, height } = this.paper(sequence)
+    const strokeWidth = this.format(options.strokeWidth ?? 0.5)
+    const layers = PathProcessor.splitLayers(sequence.moves, sequence.pens)
+      .map(layer => ({ pen: layer.pen, strokes: PathProcessor.movesToPolylines(layer.moves) }))
+    const strokes = layers.flatMap(layer => layer.strokes)
+    const { minX, minY, maxX, maxY } = sequence.boundingBox
+
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" xmlns:inkscape="http://www.inkscape.org/namespaces/inkscape"` +
+        ` width="${width}mm" height="${height}mm" viewBox="0 0 ${width} ${height}">`,
+      `  <title>${this.escape(sequence.name)}</title>`
+    ]
+
+    if (options.includeBoundingBox ?? true) {
+      lines.push(
+        '  <g id="bounding-box" inkscape:groupmode="layer" inkscape:label="Bounding box"' +
+          ` fill="none" stroke="#999" stroke-width="${strokeWidth}" stroke-dasharray="2 2">`,
+        `    <rect x="${this.format(minX)}" y="${this.format(minY)}"` +
+          ` width="${this.format(maxX - minX)}" height="${this.format(maxY - minY)}"/>`,
+        '  </g>'
+      )
+    }
+
+    if (options.includeTravel) {
+      const travel: string[] = []
+      let position: Point = { x: HOME_POSITION.x, y: HOME_POSITION.y }
+      for (const stroke of strokes) {
+        const start = stroke.points[0]
+        if (start.x !== position.x || start.y !== position.y) {
+          travel.push(`M${this.format(position.x)} ${this.format(position.y)}L${this.format(start.x)} ${this.format(start.y)}`)
+        }
+        position = stroke.points[stroke.points.length - 1]
+      }
+      lines.push(
+        '  <g id="travel" inkscape:groupmode="layer" inkscape:label="Pen-up travel"' +
+          ` fill="none" stroke="#f00" stroke-width="${strokeWidth}" stroke-dasharray="1 1">`,
+        ...travel.map(d => `    <path d="${d}"/>`),
+        '  </g>'
+      )
+    }
+
+    for (const { pen, strokes: penStrokes } of layers) {
+      const [id, label] = layers.length > 1 ? [`pen-${pen.id}`, pen.name] : ['drawing', 'Drawing']
+      lines.push(
+        `  <g id="${id}" inkscape:groupmode="layer" inkscape:label="${this.escape(label)}"` +
+          ` fill="none" stroke="${pen.color ?? '#000'}" stroke-width="${pen.width !== undefined ? this.format(pen.width) : strokeWidth}"` +
+          ' stroke-linecap="round" stroke-linejoin="round">',
+        ...penStrokes.map(stroke => `    <path d="${this.pathData(stroke.points, stroke.closed)}"/>`),
+        '  </g>'
+      )
+    }
+    lines.push('</svg>')
+
+    return lines.join('\n') + '\n'
+  }
+
+  // The sheet the sequence was laid out on, A5 for older sequences
+  private static paper(sequence: PlotterSequence): PaperSize {
+    return sequence.paper ?? { width: MOVEMENT_BOUNDS.paperWidth, height: MOVEMENT_BOUNDS.paperHeight }
+  }
+
+  private static pathData(points: Point[], closed: boolean): string {
+    const [start, ...rest] = closed ? points.slice(0, -1) : points
+    return `M${this.format(start.x)} ${this.format(start.y)}` +
+      rest.map(point => `L${this.format(point.x)} ${this.format(point.y)}`).join('') +
+      (closed ? 'Z' : '')
+  }
+
+  // Up to three decimals, without trailing zeros
+  private static format(value: number): string {
+    return String(Math.round(value * 1000) / 1000)
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+  }
+}
@@ -0,0 +1,119 @@
+// lib/SequenceLoader.ts
+
+import { CalibrationSettings, DEFAULT_PENS, ImportIssue, PaperSize, PlotterSequence } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+import { SequenceSchema } from '@/lib/SequenceSchema'
+import { SVGImporter, PenMapping } from '@/lib/SVGImporter'
+import { GCodeImporter } from '@/lib/GCodeImporter'
+import { HPGLImporter } from '@/lib/HPGLImporter'
+import { DXFImporter } from '@/lib/DXFImporter'
+
+export type SequenceFormat = 'json' | 'svg' | 'gcode' | 'hpgl' | 'dxf'
+
+export const SEQUENCE_FORMATS: SequenceFormat[] = ['json', 'svg', 'gcode', 'hpgl', 'dxf']
+
+const EXTENSIONS: Record<string, SequenceFormat> = {
+  json: 'json',
+  svg: 'svg',
+  gcode: 'gcode',
+  nc: 'gcode',
+  ngc: 'gcode',
+  gc: 'gcode',
+  hpgl: 'hpgl',
+  plt: 'hpgl',
+  hpg: 'hpgl',
+  hgl: 'hpgl',
+  dxf: 'dxf'
+}
+
+export interface SequenceLoadOptions {
+  format?: SequenceFormat          // detected from the name or content when missing
+  tolerance?: number               // curve flattening tolerance in mm
+  calibration?: CalibrationSettings
+  pens?: PenMapping                // how SVG strokes map to pens; 'single' also merges HP-GL pens and DXF layers
+  paper?: PaperSize                // sheet that G-code Y is measured on
+}
+
+export interface SequenceLoadResult {
+  sequence: PlotterSequence
+  format: SequenceFormat
+  issues: ImportIssue[]            // skipped G-code, HP-GL or DXF, with line numbers
+}
+
+// Turns a file of any supported format into a sequence, for callers
+// without the upload UI (route handlers, the server, scripts)
+export class SequenceLoader {
+  static load(text: string, name: string, options: SequenceLoadOptions = {}): SequenceLoadResult {
+    const format = options.format ?? this.detectFormat(name, text)
+
+    switch (format) {
+      case 'json':
+        return { sequence: SequenceSchema.parse(text), format, issues: [] }
+
+      case 'svg': {
+        const imported = SVGImporter.import(text, { tolerance: options.tolerance, calibration: options.calibration })
+        const sequence = SVGImporter.toSequence(imported, name, { pens: options.pens })
+        if (sequence.moves.length === 0) {
+          throw new Error('SVG contains no drawable shapes')
+        }
+        sequence.moves = PathProcessor.optimizePlotterMoves(sequence.moves)
+        sequence.boundingBox = PathProcessor.calculateBoundingBox(sequence.moves)
+        return { sequence, format, issues: [] }
+      }
+
+      case 'gcode': {
+        const { sequence, issues } = GCodeImporter.import(text, name, {
+          tolerance: options.tolerance,
+          calibration: options.calibration,
+          paperHeight: options.paper?.height
+        })
+        if (sequence.moves.length === 0) {
+          throw new Error('G-code contains no pen-down moves')
+        }
+        return { sequence, format, issues }
+      }
+
+      case 'hpgl': {
+        const result = HPGLImporter.import(text)
+        const sequence = HPGLImporter.toSequence(result, name)
+        if (sequence.moves.length === 0) {
+          throw new Error('HP-GL contains no pen-down moves')
+        }
+        return { sequence: this.applyPens(sequence, options.pens), format, issues: result.issues }
+      }
+
+      case 'dxf': {
+        const result = DXFImporter.import(text, { tolerance: options.tolerance, calibration: options.calibration })
+        const sequence = DXFImporter.toSequence(result, name)
+        if (sequence.moves.length === 0) {
+          throw new Error('DXF contains no drawable entities')
+        }
+        return { sequence: this.applyPens(sequence, options.pens), format, issues: result.issues }
+      }
+
+      default:
+        throw new Error(`Unsupported format ${format}; expected one of ${SEQUENCE_FORMATS.join(', ')}`)
+    }
+  }
+
+  // Imported layers keep a pen each unless everything goes to one pen
+  private static applyPens(sequence: PlotterSequence, pens: PenMapping | undefined): PlotterSequence {
+    if (pens !== 'single') return sequence
+    const moves = sequence.moves.map(({ pen: _, ...move }) => move)
+    return { ...sequence, moves, pens: DEFAULT_PENS }
+  }
+
+  // By file extension, falling back to a look at the content
+  static detectFormat(name: string, text: string): SequenceFormat {
+    const extension = name.toLowerCase().split('.').pop() ?? ''
+    if (extension in EXTENSIONS) return EXTENSIONS[extension]
+
+    const start = text.trimStart()
+    if (start.startsWith('{')) return 'json'
+    if (start.startsWith('<')) return 'svg'
+    if (/^(IN|SP|PU|PD|PA|PR)/i.test(start)) return 'hpgl'
+    // DXF opens with group code 0 and its first SECTION
+    if (/^0\s*\r?\n\s*SECTION\b/.test(start)) return 'dxf'
+    return 'gcode'
+  }
+}
@@ -0,0 +1,375 @@
+// lib/SequenceSchema.ts
+
+import {
+  DEFAULT_PENS,
+  MOVEMENT_BOUNDS,
+  PaperSize,
+  PEN_POSITIONS,
+  PenAssignment,
+  PlotterMove,
+  PlotterSequence,
+  SequenceMetadata
+} from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export type SequenceUnits = 'mm' | 'in'
+
+// A sequence as stored on disk. Coordinates, speeds and sizes are in the
+// given units; everything is converted to mm when loaded.
+export interface SequenceDocument {
+  schemaVersion: number
+  name: string
+  units: SequenceUnits
+  paper: PaperSize
+  pens: PenAssignment[]
+  metadata: SequenceMetadata
+  boundingBox?: PlotterSequence['boundingBox']
+  estimatedTime?: number
+  totalDistance?: number
+  moves: PlotterMove[]
+}
+
+export interface SchemaError {
+  path: string      // e.g. "moves[3].x"
+  message: string
+}
+
+const UNITS_TO_MM: Record<SequenceUnits, number> = {
+  mm: 1,
+  in: 25.4
+}
+
+const GENERATOR = 'lego-plotter'
+
+// Pen servo angles between fully lowered and fully lifted
+const PEN_MIN = Math.min(PEN_POSITIONS.UP, PEN_POSITIONS.DOWN)
+const PEN_MAX = Math.max(PEN_POSITIONS.UP, PEN_POSITIONS.DOWN)
+
+const PLACEMENT_FITS: string[] = ['fit', 'fill', 'actual']
+const PLACEMENT_ALIGNS: string[] = ['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right']
+
+type Migration = (data: Record<string, unknown>) => Record<string, unknown>
+
+// Each entry upgrades a document from the keyed version to the next one
+const MIGRATIONS: Record<number, Migration> = {
+  // Version 1 was the bare sequence object: name, moves, boundingBox and
+  // optional estimates, without a version field
+  1: data => ({
+    schemaVersion: 2,
+    name: data.name || 'Unnamed Sequence',
+    units: 'mm',
+    paper: { width: MOVEMENT_BOUNDS.paperWidth, height: MOVEMENT_BOUNDS.paperHeight },
+    pens: DEFAULT_PENS,
+    metadata: { createdAt: new Date().toISOString(), migratedFrom: 1 },
+    ...(data.boundingBox !== undefined && { boundingBox: data.boundingBox }),
+    ...(data.estimatedTime !== undefined && { estimatedTime: data.estimatedTime }),
+    ...(data.totalDistance !== undefined && { totalDistance: data.totalDistance }),
+    moves: data.moves
+  }),
+  // Version 3 lets moves name the pen that draws them; nothing to convert
+  2: data => ({ ...data, schemaVersion: 3 }),
+  // Version 4 records how imported artwork was placed on the page
+  3: data => ({ ...data, schemaVersion: 4 })
+}
+
+export class SequenceSchema {
+  static readonly CURRENT_VERSION = 4
+
+  // Parse, upgrade and validate a sequence file. Throws with every schema
+  // violation listed by path.
+  static parse(json: string): PlotterSequence {
+    let data: unknown
+    try {
+      data = JSON.parse(json)
+    } catch (error) {
+      throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : error}`)
+    }
+
+    const document = this.migrate(data)
+    const errors = this.validate(document)
+    if (errors.length > 0) {
+      throw new Error(
+        `Invalid sequence file:\n${errors.map(error => `  ${error.path || '(root)'}: ${error.message}`).join('\n')}`
+      )
+    }
+
+    return this.fromDocument(document as SequenceDocument)
+  }
+
+  static serialize(sequence: PlotterSequence): string {
+    return JSON.stringify(this.toDocument(sequence), null, 2)
+  }
+
+  static toDocument(sequence: PlotterSequence): SequenceDocument {
+    return {
+      schemaVersion: this.CURRENT_VERSION,
+      name: sequence.name,
+      units: 'mm',
+      paper: sequence.paper ?? { width: MOVEMENT_BOUNDS.paperWidth, height: MOVEMENT_BOUNDS.paperHeight },
+      pens: sequence.pens ?? DEFAULT_PENS,
+      metadata: sequence.metadata ?? { createdAt: new Date().toISOString(), generator: GENERATOR },
+      boundingBox: sequence.boundingBox,
+      ...(sequence.estimatedTime !== undefined && { estimatedTime: sequence.estimatedTime }),
+      ...(sequence.totalDistance !== undefined && { totalDistance: sequence.totalDistance }),
+      moves: sequence.moves
+    }
+  }
+
+  // Upgrade older documents step by step to the current version.
+  // Documents without a schemaVersion are version 1.
+  static migrate(data: unknown): unknown {
+    if (!this.isObject(data)) return data
+
+    let document = data
+    let version: unknown = document.schemaVersion === undefined ? 1 : document.schemaVersion
+    while (typeof version === 'number' && version < this.CURRENT_VERSION && MIGRATIONS[version]) {
+      document = MIGRATIONS[version](document)
+      version = document.schemaVersion
+    }
+    return document
+  }
+
+  // Strict validation: wrong types, missing fields and unknown properties
+  // are all reported with their path
+  static validate(data: unknown): SchemaError[] {
+    const errors: SchemaError[] = []
+    const error = (path: string, message: string) => errors.push({ path, message })
+
+    if (!this.isObject(data)) {
+      error('', 'expected an object')
+      return errors
+    }
+
+    this.checkProperties(data, '', [
+      'schemaVersion', 'name', 'units', 'paper', 'pens', 'metadata',
+      'boundingBox', 'estimatedTime', 'totalDistance', 'moves'
+    ], ['schemaVersion', 'name', 'units', 'paper', 'pens', 'metadata', 'moves'], error)
+
+    if (data.schemaVersion !== undefined && data.schemaVersion !== this.CURRENT_VERSION) {
+      error('schemaVersion', `unsupported version ${JSON.stringify(data.schemaVersion)}, expected ${this.CURRENT_VERSION}`)
+    }
+    if (data.name !== undefined && (typeof data.name !== 'string' || data.name.trim() === '')) {
+      error('name', 'expected a non-empty string')
+    }
+    if (data.units !== undefined && !(typeof data.units === 'string' && data.units in UNITS_TO_MM)) {
+      error('units', `expected one of ${Object.keys(UNITS_TO_MM).map(u => `"${u}"`).join(', ')}`)
+    }
+
+    if (data.paper !== undefined) {
+      if (this.isObject(data.paper)) {
+        this.checkProperties(data.paper, 'paper', ['width', 'height'], ['width', 'height'], error)
+        this.checkNumber(data.paper.width, 'paper.width', error, { positive: true })
+        this.checkNumber(data.paper.height, 'paper.height', error, { positive: true })
+      } else {
+        error('paper', 'expected an object')
+      }
+    }
+
+    const ids = new Set<number>()
+    if (data.pens !== undefined) {
+      if (Array.isArray(data.pens)) {
+        data.pens.forEach((pen, i) => {
+          const path = `pens[${i}]`
+          if (!this.isObject(pen)) {
+            error(path, 'expected an object')
+            return
+          }
+          this.checkProperties(pen, path, ['id', 'name', 'color', 'width'], ['id', 'name'], error)
+          if (pen.id !== undefined) {
+            if (!Number.isInteger(pen.id) || (pen.id as number) < 1) {
+              error(`${path}.id`, 'expected a positive integer')
+            } else if (ids.has(pen.id as number)) {
+              error(`${path}.id`, `duplicate pen id ${pen.id}`)
+            } else {
+              ids.add(pen.id as number)
+            }
+          }
+          if (pen.name !== undefined && typeof pen.name !== 'string') {
+            error(`${path}.name`, 'expected a string')
+          }
+          if (pen.color !== undefined && !(typeof pen.color === 'string' && /^#[0-9a-fA-F]{6}$/.test(pen.color))) {
+            error(`${path}.color`, 'expected a colour like "#1a2b3c"')
+          }
+          if (pen.width !== undefined) {
+            this.checkNumber(pen.width, `${path}.width`, error, { positive: true })
+          }
+        })
+      } else {
+        error('pens', 'expected an array')
+      }
+    }
+
+    if (data.metadata !== undefined) {
+      const metadata = data.metadata
+      if (this.isObject(metadata)) {
+        this.checkProperties(metadata, 'metadata', ['createdAt', 'generator', 'source', 'migratedFrom', 'placement'], ['createdAt'], error)
+        if (metadata.createdAt !== undefined &&
+            (typeof metadata.createdAt !== 'string' || Number.isNaN(Date.parse(metadata.createdAt)))) {
+          error('metadata.createdAt', 'expected an ISO 8601 date')
+        }
+        for (const key of ['generator', 'source'] as const) {
+          if (metadata[key] !== undefined && typeof metadata[key] !== 'string') {
+            error(`metadata.${key}`, 'expected a string')
+          }
+        }
+        if (metadata.migratedFrom !== undefined && !Number.isInteger(metadata.migratedFrom)) {
+          error('metadata.migratedFrom', 'expected an integer')
+        }
+        if (metadata.placement !== undefined) {
+          this.validatePlacement(metadata.placement, 'metadata.placement', error)
+        }
+      } else {
+        error('metadata', 'expected an object')
+      }
+    }
+
+    if (data.boundingBox !== undefined) {
+      if (this.isObject(data.boundingBox)) {
+        const keys = ['minX', 'maxX', 'minY', 'maxY']
+        this.checkProperties(data.boundingBox, 'boundingBox', keys, keys, error)
+        for (const key of keys) {
+          this.checkNumber(data.boundingBox[key], `boundingBox.${key}`, error)
+        }
+      } else {
+        error('boundingBox', 'expected an object')
+      }
+    }
+
+    for (const key of ['estimatedTime', 'totalDistance']) {
+      if (data[key] !== undefined) {
+        this.checkNumber(data[key], key, error, { nonNegative: true })
+      }
+    }
+
+    if (data.moves !== undefined) {
+      if (!Array.isArray(data.moves)) {
+        error('moves', 'expected an array')
+      } else if (data.moves.length === 0) {
+        error('moves', 'expected at least one move')
+      } else {
+        data.moves.forEach((move, i) => this.validateMove(move, `moves[${i}]`, ids, error))
+      }
+    }
+
+    return errors
+  }
+
+  private static validateMove(
+    move: unknown,
+    path: string,
+    pens: Set<number>,
+    error: (path: string, message: string) => void
+  ) {
+    if (!this.isObject(move)) {
+      error(path, 'expected an object')
+      return
+    }
+
+    this.checkProperties(move, path, ['type', 'x', 'y', 'z', 'speed', 'pen'], ['type', 'x', 'y'], error)
+    if (move.type !== undefined && move.type !== 'move' && move.type !== 'draw') {
+      error(`${path}.type`, 'expected "move" or "draw"')
+    }
+    if (move.x !== undefined) this.checkNumber(move.x, `${path}.x`, error)
+    if (move.y !== undefined) this.checkNumber(move.y, `${path}.y`, error)
+    if (move.z !== undefined) this.checkNumber(move.z, `${path}.z`, error, { min: PEN_MIN, max: PEN_MAX })
+    if (move.speed !== undefined) this.checkNumber(move.speed, `${path}.speed`, error, { positive: true })
+    if (move.pen !== undefined) {
+      if (!Number.isInteger(move.pen)) {
+        error(`${path}.pen`, 'expected an integer')
+      } else if (!pens.has(move.pen as number)) {
+        error(`${path}.pen`, `pen ${move.pen} is not listed in pens`)
+      }
+    }
+  }
+
+  private static validatePlacement(
+    placement: unknown,
+    path: string,
+    error: (path: string, message: string) => void
+  ) {
+    if (!this.isObject(placement)) {
+      error(path, 'expected an object')
+      return
+    }
+
+    const keys = ['fit', 'align', 'scale', 'rotation', 'mirrorX', 'mirrorY', 'offsetX', 'offsetY']
+    this.checkProperties(placement, path, keys, keys, error)
+    if (placement.fit !== undefined && !PLACEMENT_FITS.includes(placement.fit as string)) {
+      error(`${path}.fit`, `expected one of ${PLACEMENT_FITS.map(fit => `"${fit}"`).join(', ')}`)
+    }
+    if (placement.align !== undefined && !PLACEMENT_ALIGNS.includes(placement.align as string)) {
+      error(`${path}.align`, `expected one of ${PLACEMENT_ALIGNS.map(align => `"${align}"`).join(', ')}`)
+    }
+    if (placement.scale !== undefined) this.checkNumber(placement.scale, `${path}.scale`, error, { positive: true })
+    for (const key of ['rotation', 'offsetX', 'offsetY']) {
+      if (placement[key] !== undefined) this.checkNumber(placement[key], `${path}.${key}`, error)
+    }
+    for (const key of ['mirrorX', 'mirrorY']) {
+      if (placement[key] !== undefined && typeof placement[key] !== 'boolean') {
+        error(`${path}.${key}`, 'expected true or false')
+      }
+    }
+  }
+
+  // Convert a validated document to a sequence in mm
+  private static fromDocument(document: SequenceDocument): PlotterSequence {
+    const scale = UNITS_TO_MM[document.units]
+    const moves = document.moves.map(move => ({
+      ...move,
+      x: move.x * scale,
+      y: move.y * scale,
+      ...(move.speed !== undefined && { speed: move.speed * scale })
+    }))
+
+    return {
+      name: document.name,
+      moves,
+      boundingBox: PathProcessor.calculateBoundingBox(moves),
+      ...(document.estimatedTime !== undefined && { estimatedTime: document.estimatedTime }),
+      ...(document.totalDistance !== undefined && { totalDistance: document.totalDistance * scale }),
+      paper: { width: document.paper.width * scale, height: document.paper.height * scale },
+      pens: document.pens.map(pen => ({
+        ...pen,
+        ...(pen.width !== undefined && { width: pen.width * scale })
+      })),
+      metadata: document.metadata
+    }
+  }
+
+  private static checkProperties(
+    value: Record<string, unknown>,
+    path: string,
+    allowed: string[],
+    required: string[],
+    error: (path: string, message: string) => void
+  ) {
+    const prefix = path ? `${path}.` : ''
+    for (const key of required) {
+      if (value[key] === undefined) error(`${prefix}${key}`, 'is required')
+    }
+    for (const key of Object.keys(value)) {
+      if (!allowed.includes(key)) error(`${prefix}${key}`, 'unknown property')
+    }
+  }
+
+  private static checkNumber(
+    value: unknown,
+    path: string,
+    error: (path: string, message: string) => void,
+    options: { positive?: boolean, nonNegative?: boolean, min?: number, max?: number } = {}
+  ) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      error(path, 'expected a finite number')
+    } else if (options.positive && value <= 0) {
+      error(path, 'expected a positive number')
+    } else if (options.nonNegative && value < 0) {
+      error(path, 'expected a number of at least 0')
+    } else if ((options.min !== undefined && value < options.min) || (options.max !== undefined && value > options.max)) {
+      error(path, `expected a number from ${options.min ?? '-Infinity'} to ${options.max ?? 'Infinity'}`)
+    }
+  }
+
+  private static isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+  }
+}
@@ -0,0 +1,160 @@
+// lib/SheetTiler.ts
+
+import { BoundingBox, MOVEMENT_BOUNDS, PaperSize, Point, Polyline, PlotterSequence } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export interface TileOptions {
+  sheetWidth?: number          // mm, the paper area by default
+  sheetHeight?: number
+  overlap?: number             // mm shared by neighbouring sheets
+  registrationMarks?: boolean  // crosses in the overlap to line sheets up
+  markSize?: number            // mm across each cross
+  margin?: Point               // where the drawable area starts on each sheet, the top and left margins
+  paper?: PaperSize            // the whole sheet, margins included; the drawable area by default
+}
+
+// One sheet of the poster. Moves are in sheet coordinates, inside the
+// margins; origin is where the drawable area's top-left corner sits in the
+// drawing.
+export interface Tile {
+  row: number
+  column: number
+  origin: Point
+  sequence: PlotterSequence
+}
+
+export interface TileLayout {
+  rows: number
+  columns: number
+  tiles: Tile[]   // row by row, sheets with nothing to draw left out
+}
+
+export const DEFAULT_TILE_OPTIONS: Required<Omit<TileOptions, 'paper'>> = {
+  sheetWidth: MOVEMENT_BOUNDS.paperWidth,
+  sheetHeight: MOVEMENT_BOUNDS.paperHeight,
+  overlap: 10,
+  registrationMarks: true,
+  markSize: 6,
+  margin: { x: 0, y: 0 }
+}
+
+export class SheetTiler {
+  // Split a drawing larger than one sheet into a grid of sheets. Strokes
+  // are cut at the sheet edges and neighbouring sheets share the overlap.
+  static tile(sequence: PlotterSequence, options: TileOptions = {}): TileLayout {
+    const settings = { ...DEFAULT_TILE_OPTIONS, ...options }
+    const { sheetWidth, sheetHeight, overlap, margin } = settings
+    const paper = options.paper ?? { width: margin.x + sheetWidth, height: margin.y + sheetHeight }
+    if (!(sheetWidth > 0) || !(sheetHeight > 0)) {
+      throw new Error('Sheet size must be greater than 0')
+    }
+    if (!(overlap >= 0) || overlap >= Math.min(sheetWidth, sheetHeight)) {
+      throw new Error('Tile overlap must be at least 0 and smaller than the sheet')
+    }
+
+    const layers = PathProcessor.splitLayers(sequence.moves, sequence.pens)
+      .map(layer => ({ pen: layer.pen, strokes: PathProcessor.movesToPolylines(layer.moves) }))
+    const strokes = layers.flatMap(layer => layer.strokes)
+    if (strokes.length === 0) {
+      throw new Error('Sequence has nothing to draw')
+    }
+
+    const bounds = this.bounds(strokes)
+    const columns = this.count(bounds.maxX - bounds.minX, sheetWidth, overlap)
+    const rows = this.count(bounds.maxY - bounds.minY, sheetHeight, overlap)
+    const originX = (column: number) => bounds.minX + column * (sheetWidth - overlap)
+    const originY = (row: number) => bounds.minY + row * (sheetHeight - overlap)
+
+    const marks = rows * columns > 1 && settings.registrationMarks
+      ? this.registrationMarks(rows, columns, originX, originY, settings)
+      : []
+
+    const tiles: Tile[] = []
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const origin = { x: originX(column), y: originY(row) }
+        const sheet = { minX: origin.x, minY: origin.y, maxX: origin.x + sheetWidth, maxY: origin.y + sheetHeight }
+        const toSheet = (polyline: Polyline): Polyline => ({
+          ...polyline,
+          points: polyline.points.map(point => ({ x: point.x - origin.x + margin.x, y: point.y - origin.y + margin.y }))
+        })
+
+        const clipped = layers.map(layer => ({ pen: layer.pen, strokes: PathProcessor.clipPolylines(layer.strokes, sheet).map(toSheet) }))
+        if (clipped.every(layer => layer.strokes.length === 0)) continue
+
+        // Marks go down with the first pen, before any of the drawing
+        clipped[0].strokes.unshift(...PathProcessor.clipPolylines(marks, sheet).map(toSheet))
+
+        const moves = clipped.flatMap(layer =>
+          PathProcessor.assignPen(PathProcessor.polylinesToMoves(layer.strokes), sequence.pens && layer.pen.id)
+        )
+        tiles.push({
+          row,
+          column,
+          origin,
+          sequence: {
+            ...sequence,
+            name: `${sequence.name} (sheet ${tiles.length + 1}, row ${row + 1} column ${column + 1})`,
+            moves,
+            boundingBox: PathProcessor.calculateBoundingBox(moves),
+            paper,
+            estimatedTime: undefined,
+            totalDistance: undefined
+          }
+        })
+      }
+    }
+
+    return { rows, columns, tiles }
+  }
+
+  // Sheets needed along one axis, each adding its width less the overlap
+  private static count(extent: number, sheet: number, overlap: number): number {
+    return Math.max(1, Math.ceil((extent - overlap) / (sheet - overlap)))
+  }
+
+  // Two crosses along every seam, in the middle of the overlap, so each
+  // pair of neighbouring sheets shares them
+  private static registrationMarks(
+    rows: number,
+    columns: number,
+    originX: (column: number) => number,
+    originY: (row: number) => number,
+    settings: typeof DEFAULT_TILE_OPTIONS
+  ): Polyline[] {
+    const { sheetWidth, sheetHeight, overlap, markSize } = settings
+    const half = markSize / 2
+    const cross = (x: number, y: number): Polyline[] => [
+      { points: [{ x: x - half, y }, { x: x + half, y }], closed: false },
+      { points: [{ x, y: y - half }, { x, y: y + half }], closed: false }
+    ]
+
+    const marks: Polyline[] = []
+    for (let column = 1; column < columns; column++) {
+      const x = originX(column) + overlap / 2
+      for (let row = 0; row < rows; row++) {
+        marks.push(...cross(x, originY(row) + sheetHeight / 4), ...cross(x, originY(row) + sheetHeight * 3 / 4))
+      }
+    }
+    for (let row = 1; row < rows; row++) {
+      const y = originY(row) + overlap / 2
+      for (let column = 0; column < columns; column++) {
+        marks.push(...cross(originX(column) + sheetWidth / 4, y), ...cross(originX(column) + sheetWidth * 3 / 4, y))
+      }
+    }
+    return marks
+  }
+
+  private static bounds(polylines: Polyline[]): BoundingBox {
+    const rect = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    for (const polyline of polylines) {
+      for (const point of polyline.points) {
+        rect.minX = Math.min(rect.minX, point.x)
+        rect.minY = Math.min(rect.minY, point.y)
+        rect.maxX = Math.max(rect.maxX, point.x)
+        rect.maxY = Math.max(rect.maxY, point.y)
+      }
+    }
+    return rect
+  }
+}
@@ -0,0 +1,166 @@
+// lib/StrokeOptimizer.ts
+
+import { HOME_POSITION, Point, PlotterMove, Polyline } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+
+export interface StrokeOptimizerOptions {
+  allowReverse?: boolean    // strokes may be drawn end to start
+  start?: Point             // where the pen is before the first stroke
+  maxPasses?: number        // 2-opt improvement passes
+}
+
+export interface StrokeOptimizationResult {
+  moves: PlotterMove[]
+  strokeCount: number
+  penUpBefore: number       // pen-up travel in mm before optimizing
+  penUpAfter: number        // pen-up travel in mm after optimizing
+}
+
+const DEFAULT_MAX_PASSES = 10
+
+// 2-opt is quadratic per pass; beyond this only nearest neighbour is used
+const TWO_OPT_LIMIT = 2000
+
+export class StrokeOptimizer {
+  // Reorder pen-down strokes to minimize pen-up travel: greedy nearest
+  // neighbour first, then 2-opt, which also flips strokes when allowed
+  static optimize(
+    moves: PlotterMove[],
+    options: StrokeOptimizerOptions = {}
+  ): StrokeOptimizationResult {
+    // Each pen's strokes are ordered on their own; layers stay in order
+    const groups = PathProcessor.groupByPen(moves)
+    if (groups.length > 1) {
+      const results = groups.map(group => this.optimize(group.moves, options))
+      return {
+        moves: results.flatMap(result => result.moves),
+        strokeCount: results.reduce((sum, result) => sum + result.strokeCount, 0),
+        penUpBefore: results.reduce((sum, result) => sum + result.penUpBefore, 0),
+        penUpAfter: results.reduce((sum, result) => sum + result.penUpAfter, 0)
+      }
+    }
+
+    const pen = groups[0]?.pen
+    const start = options.start ?? { x: HOME_POSITION.x, y: HOME_POSITION.y }
+    const strokes = PathProcessor.movesToPolylines(moves)
+    const penUpBefore = this.penUpDistance(strokes, start)
+    const ordered = this.order(strokes, options)
+    const penUpAfter = this.penUpDistance(ordered, start)
+
+    // Never make things worse than the original order
+    if (penUpAfter >= penUpBefore) {
+      return {
+        moves: PathProcessor.assignPen(PathProcessor.polylinesToMoves(strokes), pen),
+        strokeCount: strokes.length,
+        penUpBefore,
+        penUpAfter: penUpBefore
+      }
+    }
+
+    return {
+      moves: PathProcessor.assignPen(PathProcessor.polylinesToMoves(ordered), pen),
+      strokeCount: ordered.length,
+      penUpBefore,
+      penUpAfter
+    }
+  }
+
+  // The reordering step on its own, for callers that build polylines
+  static order(strokes: Polyline[], options: StrokeOptimizerOptions = {}): Polyline[] {
+    const start = options.start ?? { x: HOME_POSITION.x, y: HOME_POSITION.y }
+    const allowReverse = options.allowReverse ?? true
+
+    const ordered = this.nearestNeighbour(strokes, start, allowReverse)
+    if (allowReverse && ordered.length <= TWO_OPT_LIMIT) {
+      return this.twoOpt(ordered, start, options.maxPasses ?? DEFAULT_MAX_PASSES)
+    }
+    return ordered
+  }
+
+  // Total pen-up travel from the start point through the strokes in order
+  static penUpDistance(strokes: Polyline[], start: Point): number {
+    let distance = 0
+    let position = start
+    for (const stroke of strokes) {
+      distance += this.distance(position, stroke.points[0])
+      position = stroke.points[stroke.points.length - 1]
+    }
+    return distance
+  }
+
+  private static nearestNeighbour(
+    strokes: Polyline[],
+    start: Point,
+    allowReverse: boolean
+  ): Polyline[] {
+    const remaining = [...strokes]
+    const ordered: Polyline[] = []
+    let position = start
+
+    while (remaining.length > 0) {
+      let bestIndex = 0
+      let bestReversed = false
+      let bestDistance = Infinity
+
+      for (let i = 0; i < remaining.length; i++) {
+        const points = remaining[i].points
+        const toStart = this.distance(position, points[0])
+        if (toStart < bestDistance) {
+          bestDistance = toStart
+          bestIndex = i
+          bestReversed = false
+        }
+        if (allowReverse) {
+          const toEnd = this.distance(position, points[points.length - 1])
+          if (toEnd < bestDistance) {
+            bestDistance = toEnd
+            bestIndex = i
+            bestReversed = true
+          }
+        }
+      }
+
+      const [next] = remaining.splice(bestIndex, 1)
+      const stroke = bestReversed ? PathProcessor.reversePolyline(next) : next
+      ordered.push(stroke)
+      position = stroke.points[stroke.points.length - 1]
+    }
+
+    return ordered
+  }
+
+  // Reversing the run i..j of the tour flips every stroke in it, so only the
+  // two travel moves at its boundaries change length
+  private static twoOpt(strokes: Polyline[], start: Point, maxPasses: number): Polyline[] {
+    const tour = [...strokes]
+    const startOf = (k: number) => tour[k].points[0]
+    const endOf = (k: number) => k < 0 ? start : tour[k].points[tour[k].points.length - 1]
+
+    for (let pass = 0; pass < maxPasses; pass++) {
+      let improved = false
+
+      for (let i = 0; i < tour.length - 1; i++) {
+        for (let j = i + 1; j < tour.length; j++) {
+          const before = this.distance(endOf(i - 1), startOf(i)) +
+            (j + 1 < tour.length ? this.distance(endOf(j), startOf(j + 1)) : 0)
+          const after = this.distance(endOf(i - 1), endOf(j)) +
+            (j + 1 < tour.length ? this.distance(startOf(i), startOf(j + 1)) : 0)
+
+          if (after < before - 1e-9) {
+            const reversed = tour.slice(i, j + 1).reverse().map(stroke => PathProcessor.reversePolyline(stroke))
+            tour.splice(i, reversed.length, ...reversed)
+            improved = true
+          }
+        }
+      }
+
+      if (!improved) break
+    }
+
+    return tour
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(b.x - a.x, b.y - a.y)
+  }
+}
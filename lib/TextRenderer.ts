@@ -0,0 +1,143 @@
+// lib/TextRenderer.ts
+
+import { Point, Polyline, PlotterMove, PlotterSequence } from '@/lib/types'
+import { PathProcessor } from '@/lib/pathUtils'
+import { CAP_HEIGHT, SIMPLEX } from '@/lib/HersheyFont'
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+export interface TextOptions {
+  size: number              // capital letter height in mm
+  letterSpacing?: number    // extra gap between characters in mm
+  lineHeight?: number       // baseline distance as a multiple of size
+  align?: TextAlign
+  angle?: number            // baseline rotation in degrees, clockwise on the page
+  origin?: Point            // anchor of the first baseline in mm
+}
+
+export interface TextMetrics {
+  width: number             // widest line in mm, before rotation
+  height: number            // first cap line to last baseline in mm
+  lines: number
+}
+
+interface Glyph {
+  advance: number
+  strokes: Point[][]
+}
+
+const DEFAULT_LINE_HEIGHT = 1.6
+const TAB_WIDTH = 4
+const FALLBACK = '?'
+
+const glyphCache = new Map<string, Glyph>()
+
+export class TextRenderer {
+  // Lay out text as single strokes. Lines are split on newlines and aligned
+  // around the origin; y grows downwards like the rest of the plotter.
+  static render(text: string, options: TextOptions): Polyline[] {
+    const scale = options.size / CAP_HEIGHT
+    const spacing = options.letterSpacing ?? 0
+    const lineStep = options.size * (options.lineHeight ?? DEFAULT_LINE_HEIGHT)
+    const align = options.align ?? 'left'
+    const origin = options.origin ?? { x: 0, y: 0 }
+    const radians = ((options.angle ?? 0) * Math.PI) / 180
+    const cos = Math.cos(radians)
+    const sin = Math.sin(radians)
+
+    const place = (x: number, y: number): Point => ({
+      x: origin.x + x * cos - y * sin,
+      y: origin.y + x * sin + y * cos
+    })
+
+    const polylines: Polyline[] = []
+    this.splitLines(text).forEach((line, row) => {
+      const width = this.lineWidth(line, scale, spacing)
+      let cursor = align === 'center' ? -width / 2 : align === 'right' ? -width : 0
+      const baseline = row * lineStep
+
+      for (const char of line) {
+        const glyph = this.glyph(char)
+        for (const stroke of glyph.strokes) {
+          const points = stroke.map(point => place(cursor + point.x * scale, baseline - point.y * scale))
+          const first = points[0]
+          const last = points[points.length - 1]
+          polylines.push({ points, closed: first.x === last.x && first.y === last.y })
+        }
+        cursor += glyph.advance * scale + spacing
+      }
+    })
+
+    return polylines
+  }
+
+  static measure(text: string, options: TextOptions): TextMetrics {
+    const scale = options.size / CAP_HEIGHT
+    const spacing = options.letterSpacing ?? 0
+    const lines = this.splitLines(text)
+    const width = Math.max(0, ...lines.map(line => this.lineWidth(line, scale, spacing)))
+    const lineStep = options.size * (options.lineHeight ?? DEFAULT_LINE_HEIGHT)
+
+    return {
+      width,
+      height: options.size + (lines.length - 1) * lineStep,
+      lines: lines.length
+    }
+  }
+
+  static toMoves(text: string, options: TextOptions): PlotterMove[] {
+    return PathProcessor.polylinesToMoves(this.render(text, options))
+  }
+
+  static toSequence(text: string, options: TextOptions, name: string = 'Text'): PlotterSequence {
+    const moves = this.toMoves(text, options)
+    if (moves.length === 0) {
+      throw new Error('Text has no printable characters')
+    }
+    return {
+      name,
+      moves,
+      boundingBox: PathProcessor.calculateBoundingBox(moves)
+    }
+  }
+
+  private static splitLines(text: string): string[] {
+    return text.replace(/\r\n?/g, '\n').replace(/\t/g, ' '.repeat(TAB_WIDTH)).split('\n')
+  }
+
+  // Letter spacing goes between characters, not after the last one
+  private static lineWidth(line: string, scale: number, spacing: number): number {
+    const chars = [...line]
+    if (chars.length === 0) return 0
+    const advance = chars.reduce((sum, char) => sum + this.glyph(char).advance, 0)
+    return advance * scale + spacing * (chars.length - 1)
+  }
+
+  private static glyph(char: string): Glyph {
+    const cached = glyphCache.get(char)
+    if (cached) return cached
+
+    const code = char.charCodeAt(0)
+    const entry = char.length === 1 && code >= 32 && code - 32 < SIMPLEX.length
+      ? SIMPLEX[code - 32]
+      : SIMPLEX[FALLBACK.charCodeAt(0) - 32]
+    const [advance, data] = entry
+
+    const values = data ? data.split(',').map(Number) : []
+    const strokes: Point[][] = []
+    let stroke: Point[] = []
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      if (values[i] === -1 && values[i + 1] === -1) {
+        if (stroke.length > 1) strokes.push(stroke)
+        stroke = []
+      } else {
+        stroke.push({ x: values[i], y: values[i + 1] })
+      }
+    }
+    if (stroke.length > 1) strokes.push(stroke)
+
+    const glyph = { advance, strokes }
+    glyphCache.set(char, glyph)
+    return glyph
+  }
+}
@@ -0,0 +1,118 @@
+// lib/XMLParser.ts
+
+// Minimal XML reader for importing SVG documents. Unlike DOMParser it also
+// works in Node and Web Workers. Text content is not kept.
+
+export interface XMLElement {
+  name: string
+  attributes: Record<string, string>
+  children: XMLElement[]
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'"
+}
+
+export class XMLParser {
+  static parse(text: string): XMLElement {
+    const root: XMLElement = { name: '#document', attributes: {}, children: [] }
+    const stack: XMLElement[] = [root]
+    let pos = 0
+
+    while (pos < text.length) {
+      const open = text.indexOf('<', pos)
+      if (open === -1) break
+
+      if (text.startsWith('<!--', open)) {
+        pos = this.skipPast(text, open, '-->')
+      } else if (text.startsWith('<![CDATA[', open)) {
+        pos = this.skipPast(text, open, ']]>')
+      } else if (text.startsWith('<?', open)) {
+        pos = this.skipPast(text, open, '?>')
+      } else if (text.startsWith('<!', open)) {
+        pos = this.skipDoctype(text, open)
+      } else if (text[open + 1] === '/') {
+        const close = text.indexOf('>', open)
+        if (close === -1) throw new Error('Unterminated closing tag')
+        const name = text.slice(open + 2, close).trim()
+        const element = stack.pop()
+        if (!element || element.name !== name) {
+          throw new Error(`Unexpected closing tag </${name}>`)
+        }
+        pos = close + 1
+      } else {
+        const { element, selfClosing, end } = this.readTag(text, open)
+        stack[stack.length - 1].children.push(element)
+        if (!selfClosing) stack.push(element)
+        pos = end
+      }
+    }
+
+    if (stack.length > 1) {
+      throw new Error(`Unclosed tag <${stack[stack.length - 1].name}>`)
+    }
+
+    const documentElement = root.children[0]
+    if (!documentElement) {
+      throw new Error('Document has no root element')
+    }
+    return documentElement
+  }
+
+  private static readTag(
+    text: string,
+    open: number
+  ): { element: XMLElement, selfClosing: boolean, end: number } {
+    const nameMatch = /^<([^\s/>]+)/.exec(text.slice(open, open + 256))
+    if (!nameMatch) throw new Error(`Malformed tag at offset ${open}`)
+
+    const element: XMLElement = { name: nameMatch[1], attributes: {}, children: [] }
+    const attributePattern = /\s*([^\s=/>]+)\s*=\s*("([^"]*)"|'([^']*)')|\s*(\/?)>/y
+    attributePattern.lastIndex = open + nameMatch[0].length
+
+    while (attributePattern.lastIndex < text.length) {
+      const match = attributePattern.exec(text)
+      if (!match) throw new Error(`Malformed attributes in <${element.name}>`)
+
+      if (match[1] === undefined) {
+        return {
+          element,
+          selfClosing: match[5] === '/',
+          end: attributePattern.lastIndex
+        }
+      }
+      element.attributes[match[1]] = this.decodeEntities(match[3] ?? match[4] ?? '')
+    }
+
+    throw new Error(`Unterminated tag <${element.name}>`)
+  }
+
+  private static skipPast(text: string, from: number, terminator: string): number {
+    const end = text.indexOf(terminator, from)
+    if (end === -1) throw new Error(`Missing "${terminator}"`)
+    return end + terminator.length
+  }
+
+  // DOCTYPE declarations may carry an internal subset in square brackets
+  private static skipDoctype(text: string, from: number): number {
+    let depth = 0
+    for (let i = from; i < text.length; i++) {
+      if (text[i] === '[') depth++
+      else if (text[i] === ']') depth--
+      else if (text[i] === '>' && depth === 0) return i + 1
+    }
+    throw new Error('Unterminated declaration')
+  }
+
+  private static decodeEntities(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, code: string) => {
+      if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16))
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10))
+      return ENTITIES[code] ?? entity
+    })
+  }
+}
@@ -0,0 +1,22 @@
+// lib/drivers.ts
+
+import { DriverRegistry } from '@/lib/PlotterDriver'
+import { PlotterControl } from '@/lib/plotter'
+import { SimulatedPlotterControl } from '@/lib/plotter.simulation'
+
+// Every backend the app can drive. A new one only needs registering here.
+DriverRegistry.register({
+  id: 'poweredup',
+  name: 'LEGO Powered UP hub',
+  simulated: false,
+  create: ({ calibration, poweredUP }) => new PlotterControl(false, calibration, poweredUP)
+})
+
+DriverRegistry.register({
+  id: 'simulation',
+  name: 'Simulator',
+  simulated: true,
+  create: ({ calibration }) => new SimulatedPlotterControl(calibration)
+})
+
+export { DriverRegistry }
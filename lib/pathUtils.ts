@@ -1,8 +1,36 @@
 // lib/pathUtils.ts
 
-import { SimpleCalibration, CalibrationSettings, Point, PathSegment, PlotterMove, DrawingArea, PlotterSequence, BoundingBox, MOVEMENT_BOUNDS, Device } from '@/lib/types'
+import { SimpleCalibration, CalibrationSettings, Point, PathSegment, PlotterMove, DrawingArea, PlotterSequence, BoundingBox, MOVEMENT_BOUNDS, Device, Polyline, PEN_POSITIONS, MotionLimits, DEFAULT_MOTION_LIMITS, PenAssignment, PenLayer, DEFAULT_PENS, PEN_CHANGE_POSITION, ImportedLayer } from '@/lib/types'
 import { MovementValidator } from '@/lib/MovementValidator'
-import { PlotterControl } from '@/lib/plotter'
+import { PlotterDriver } from '@/lib/PlotterDriver'
+import { MotionBlock, MotionPlanner, MotionSegment } from '@/lib/MotionPlanner'
+
+export interface CleanupOptions {
+  joinTolerance?: number       // mm between endpoints that count as touching
+  duplicateTolerance?: number  // mm within which a segment counts as drawn already
+  simplifyEpsilon?: number     // Ramer–Douglas–Peucker epsilon in mm, 0 to skip
+}
+
+export interface CleanupResult {
+  moves: PlotterMove[]
+  duplicatesRemoved: number    // draw moves dropped because their segment was drawn already
+  joinsRemoved: number         // pen lifts saved by joining touching strokes
+  simplifyRemoved: number      // draw moves dropped by simplification
+}
+
+// A segment already drawn, and where it sits in its stroke
+interface KeptSegment {
+  from: Point
+  to: Point
+  stroke: number
+  end: number     // index of the point the segment ends at
+}
+
+const DEFAULT_CLEANUP: Required<CleanupOptions> = {
+  joinTolerance: 0.1,
+  duplicateTolerance: 0.05,
+  simplifyEpsilon: 0.05
+}
 
 export class PathProcessor {
   static validateAndScalePath(
@@ -73,6 +101,485 @@ export class PathProcessor {
     )
   }
 
+  // Convert pen-down polylines into moves: travel with the pen up to the start
+  // of each polyline, lower the pen, draw, and lift the pen at the end
+  static polylinesToMoves(polylines: Polyline[], scale: number = 1): PlotterMove[] {
+    const moves: PlotterMove[] = []
+
+    for (const polyline of polylines) {
+      if (polyline.points.length < 2) continue
+      const [first, ...rest] = polyline.points
+      const speed = (index: number) => {
+        const value = polyline.speeds?.[index]
+        return value === undefined ? {} : { speed: value * scale }
+      }
+
+      moves.push({ type: 'move', x: first.x * scale, y: first.y * scale, z: PEN_POSITIONS.UP, ...speed(0) })
+      moves.push({ type: 'move', x: first.x * scale, y: first.y * scale, z: PEN_POSITIONS.DOWN })
+      rest.forEach((point, i) => {
+        moves.push({ type: 'draw', x: point.x * scale, y: point.y * scale, ...speed(i + 1) })
+      })
+
+      const last = rest[rest.length - 1]
+      moves.push({ type: 'move', x: last.x * scale, y: last.y * scale, z: PEN_POSITIONS.UP })
+    }
+
+    return moves
+  }
+
+  // Split moves back into the polylines drawn with the pen down.
+  // The pen is set before travelling, as PathExecutor does; draw moves always mark.
+  // Move speeds are kept on the polylines.
+  static movesToPolylines(moves: PlotterMove[]): Polyline[] {
+    const polylines: Polyline[] = []
+    let current: Point | null = null
+    let penDown = false
+    let active: Point[] | null = null
+    let speeds: (number | undefined)[] = []
+    let travelSpeed: number | undefined
+
+    const finish = () => {
+      if (active && active.length > 1) {
+        const first = active[0]
+        const last = active[active.length - 1]
+        polylines.push(this.withSpeeds({
+          points: active,
+          closed: first.x === last.x && first.y === last.y
+        }, speeds))
+      }
+      if (active) travelSpeed = undefined
+      active = null
+    }
+
+    for (const move of moves) {
+      if (typeof move.z === 'number') {
+        penDown = move.z !== PEN_POSITIONS.UP
+      }
+      const target = { x: move.x, y: move.y }
+      const marks = move.type === 'draw' || penDown
+
+      if (marks && current) {
+        if (target.x !== current.x || target.y !== current.y) {
+          if (!active) {
+            active = [current]
+            speeds = [travelSpeed]
+          }
+          active.push(target)
+          speeds.push(move.speed)
+        }
+      } else if (!marks) {
+        finish()
+        if (!current || target.x !== current.x || target.y !== current.y) travelSpeed = move.speed
+      }
+      current = target
+    }
+    finish()
+
+    return polylines
+  }
+
+  // One layer per pen, in the order the pens are listed. Moves without a
+  // pen belong to the first pen; pens missing from the list get a default.
+  static splitLayers(moves: PlotterMove[], pens: PenAssignment[] = DEFAULT_PENS): PenLayer[] {
+    const fallback = (pens[0] ?? DEFAULT_PENS[0]).id
+    const groups = this.groupByPen(moves.map(move => move.pen === undefined ? { ...move, pen: fallback } : move))
+    const rank = (id: number) => {
+      const index = pens.findIndex(pen => pen.id === id)
+      return index === -1 ? pens.length : index
+    }
+
+    return groups
+      .map(({ pen: id = fallback, moves }) => ({
+        pen: pens.find(pen => pen.id === id) ?? { id, name: `Pen ${id}` },
+        moves
+      }))
+      .sort((a, b) => rank(a.pen.id) - rank(b.pen.id))
+  }
+
+  // Moves grouped by their pen field, in order of first appearance
+  static groupByPen(moves: PlotterMove[]): { pen: number | undefined, moves: PlotterMove[] }[] {
+    const groups = new Map<number | undefined, PlotterMove[]>()
+    for (const move of moves) {
+      const group = groups.get(move.pen)
+      if (group) group.push(move)
+      else groups.set(move.pen, [move])
+    }
+    return [...groups].map(([pen, moves]) => ({ pen, moves }))
+  }
+
+  // Imported layers as a sequence with one pen each, named after the layer
+  static layersToSequence(layers: ImportedLayer[], name: string): PlotterSequence {
+    const drawn = layers.filter(layer => layer.polylines.length > 0)
+    const pens: PenAssignment[] = drawn.map((layer, i) => ({ id: i + 1, name: layer.name }))
+    const moves = drawn.flatMap((layer, i) =>
+      this.assignPen(this.polylinesToMoves(layer.polylines), pens[i].id)
+    )
+    return {
+      name,
+      moves,
+      boundingBox: this.calculateBoundingBox(moves),
+      pens: pens.length > 0 ? pens : DEFAULT_PENS
+    }
+  }
+
+  static assignPen(moves: PlotterMove[], pen: number | undefined): PlotterMove[] {
+    return pen === undefined ? moves : moves.map(move => ({ ...move, pen }))
+  }
+
+  // Remove redundant work before plotting: segments drawn twice, pen lifts
+  // between strokes that touch, and points that do not change the shape
+  static cleanupMoves(moves: PlotterMove[], options: CleanupOptions = {}): CleanupResult {
+    // Strokes of different pens must never be joined or deduplicated
+    const groups = this.groupByPen(moves)
+    if (groups.length > 1) {
+      const results = groups.map(group => this.cleanupMoves(group.moves, options))
+      return {
+        moves: results.flatMap(result => result.moves),
+        duplicatesRemoved: results.reduce((sum, result) => sum + result.duplicatesRemoved, 0),
+        joinsRemoved: results.reduce((sum, result) => sum + result.joinsRemoved, 0),
+        simplifyRemoved: results.reduce((sum, result) => sum + result.simplifyRemoved, 0)
+      }
+    }
+
+    const settings = { ...DEFAULT_CLEANUP, ...options }
+    // Each step only ever removes segments or strokes, so the counts stay
+    // positive; splitting a stroke adds pen-up moves, which are not counted
+    const countSegments = (polylines: Polyline[]) =>
+      polylines.reduce((sum, polyline) => sum + Math.max(0, polyline.points.length - 1), 0)
+
+    let polylines = this.movesToPolylines(moves)
+    const initialSegments = countSegments(polylines)
+
+    polylines = this.removeDuplicateSegments(polylines, settings.duplicateTolerance)
+    const afterDuplicates = countSegments(polylines)
+    const strokesBeforeJoin = polylines.length
+
+    polylines = this.joinPolylines(polylines, settings.joinTolerance)
+    const afterJoin = countSegments(polylines)
+
+    if (settings.simplifyEpsilon > 0) {
+      polylines = polylines.map(polyline => this.simplifyPolyline(polyline, settings.simplifyEpsilon))
+    }
+    const cleaned = this.polylinesToMoves(polylines)
+
+    return {
+      moves: this.assignPen(cleaned, groups[0]?.pen),
+      duplicatesRemoved: initialSegments - afterDuplicates,
+      joinsRemoved: strokesBeforeJoin - polylines.length,
+      simplifyRemoved: afterJoin - countSegments(polylines)
+    }
+  }
+
+  // Drop segments lying within tolerance of a segment that is drawn earlier.
+  // Polylines are split where a segment is dropped.
+  static removeDuplicateSegments(polylines: Polyline[], tolerance: number): Polyline[] {
+    // Spatial hash of kept segments, bucketed by the cells their bounding box covers
+    const cellSize = Math.max(tolerance * 20, 1)
+    const grid = new Map<string, KeptSegment[]>()
+    const cellsFor = (a: Point, b: Point) => {
+      const keys: string[] = []
+      const minX = Math.floor((Math.min(a.x, b.x) - tolerance) / cellSize)
+      const maxX = Math.floor((Math.max(a.x, b.x) + tolerance) / cellSize)
+      const minY = Math.floor((Math.min(a.y, b.y) - tolerance) / cellSize)
+      const maxY = Math.floor((Math.max(a.y, b.y) + tolerance) / cellSize)
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) keys.push(`${x},${y}`)
+      }
+      return keys
+    }
+
+    const result: Polyline[] = []
+    polylines.forEach((polyline, stroke) => {
+      const points = polyline.points
+      // Distance along the stroke to each point
+      const along = [0]
+      for (let i = 1; i < points.length; i++) {
+        along.push(along[i - 1] + Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y))
+      }
+      const length = along[along.length - 1]
+
+      // Segments of the same stroke that run into this one are its
+      // neighbours, not earlier drawing: short segments of a curve always
+      // lie within tolerance of the one before
+      const isNeighbour = (segment: KeptSegment, end: number) => {
+        if (segment.stroke !== stroke) return false
+        if (segment.end === end - 1 || along[end - 1] - along[segment.end] < tolerance * 2) return true
+        return polyline.closed && length - along[end] + along[segment.end - 1] < tolerance * 2
+      }
+      const isCovered = (a: Point, b: Point, end: number) => {
+        for (const key of cellsFor(a, b)) {
+          for (const segment of grid.get(key) ?? []) {
+            if (isNeighbour(segment, end)) continue
+            if (this.distanceToSegment(a, segment.from, segment.to) <= tolerance &&
+                this.distanceToSegment(b, segment.from, segment.to) <= tolerance) {
+              return true
+            }
+          }
+        }
+        return false
+      }
+
+      let piece: Point[] = [points[0]]
+      let speeds = [polyline.speeds?.[0]]
+      let whole = true
+      const flush = () => {
+        // Pieces that survived whole keep their closed flag
+        if (piece.length > 1) result.push(this.withSpeeds({ points: piece, closed: whole && polyline.closed }, speeds))
+      }
+
+      for (let i = 1; i < points.length; i++) {
+        const a = points[i - 1]
+        const b = points[i]
+        if (isCovered(a, b, i)) {
+          flush()
+          piece = [b]
+          speeds = [undefined]
+          whole = false
+          continue
+        }
+        for (const key of cellsFor(a, b)) {
+          if (!grid.has(key)) grid.set(key, [])
+          grid.get(key)!.push({ from: a, to: b, stroke, end: i })
+        }
+        piece.push(b)
+        speeds.push(polyline.speeds?.[i])
+      }
+      flush()
+    })
+
+    return result
+  }
+
+  // Chain polylines whose endpoints are within tolerance, reversing as needed
+  static joinPolylines(polylines: Polyline[], tolerance: number): Polyline[] {
+    const remaining = polylines.filter(polyline => !polyline.closed)
+    const result: Polyline[] = polylines.filter(polyline => polyline.closed)
+    const used = new Set<number>()
+
+    const findNeighbour = (point: Point): { index: number, atStart: boolean } | null => {
+      for (let i = 0; i < remaining.length; i++) {
+        if (used.has(i)) continue
+        const points = remaining[i].points
+        if (this.samePoint(point, points[0], tolerance)) return { index: i, atStart: true }
+        if (this.samePoint(point, points[points.length - 1], tolerance)) return { index: i, atStart: false }
+      }
+      return null
+    }
+
+    for (let i = 0; i < remaining.length; i++) {
+      if (used.has(i)) continue
+      used.add(i)
+      let chain = remaining[i]
+      const end = () => chain.points[chain.points.length - 1]
+
+      // Grow at the end, then flip and grow at the other end
+      for (let side = 0; side < 2; side++) {
+        let neighbour = findNeighbour(end())
+        while (neighbour) {
+          used.add(neighbour.index)
+          const next = remaining[neighbour.index]
+          const oriented = neighbour.atStart ? next : this.reversePolyline(next)
+          // The travel between the two is gone, and its speed with it
+          chain = this.withSpeeds({
+            points: chain.points.concat(oriented.points.slice(1)),
+            closed: false
+          }, this.speedsOf(chain).concat(this.speedsOf(oriented).slice(1)))
+          neighbour = findNeighbour(end())
+        }
+        chain = this.reversePolyline(chain)
+      }
+
+      const points = chain.points
+      result.push({
+        ...chain,
+        closed: points.length > 2 && this.samePoint(points[0], points[points.length - 1], tolerance)
+      })
+    }
+
+    return result
+  }
+
+  // The same stroke drawn end to start. Each draw speed stays with its
+  // segment; the travel speed stays with the stroke.
+  static reversePolyline(polyline: Polyline): Polyline {
+    const points = [...polyline.points].reverse()
+    if (!polyline.speeds) return { ...polyline, points }
+    const speeds = polyline.speeds
+    return { ...polyline, points, speeds: points.map((_, i) => i === 0 ? speeds[0] : speeds[points.length - i]) }
+  }
+
+  // Mirror top to bottom within the layers' combined bounding box, for
+  // formats that are Y-up where the page is Y-down
+  static flipY<T extends { polylines: Polyline[] }>(layers: T[]): T[] {
+    let minY = Infinity
+    let maxY = -Infinity
+    for (const layer of layers) {
+      for (const polyline of layer.polylines) {
+        for (const point of polyline.points) {
+          minY = Math.min(minY, point.y)
+          maxY = Math.max(maxY, point.y)
+        }
+      }
+    }
+    if (minY > maxY) return layers
+    const axis = minY + maxY
+
+    return layers.map(layer => ({
+      ...layer,
+      polylines: layer.polylines.map(polyline => ({
+        ...polyline,
+        points: polyline.points.map(point => ({ x: point.x, y: axis - point.y }))
+      }))
+    }))
+  }
+
+  // Simplify a stroke without merging segments drawn at different speeds
+  static simplifyPolyline(polyline: Polyline, epsilon: number): Polyline {
+    if (!polyline.speeds) return { ...polyline, points: this.simplifyPoints(polyline.points, epsilon) }
+
+    const { points, speeds } = polyline
+    const simplified = [points[0]]
+    const kept = [speeds[0]]
+    let runStart = 0
+    for (let i = 1; i < points.length; i++) {
+      if (i + 1 < points.length && speeds[i + 1] === speeds[i]) continue
+      const run = this.simplifyPoints(points.slice(runStart, i + 1), epsilon).slice(1)
+      simplified.push(...run)
+      kept.push(...run.map(() => speeds[i]))
+      runStart = i
+    }
+    return { ...polyline, points: simplified, speeds: kept }
+  }
+
+  // Ramer–Douglas–Peucker simplification, keeping both endpoints
+  static simplifyPoints(points: Point[], epsilon: number): Point[] {
+    if (points.length < 3) return points
+
+    const keep = new Array<boolean>(points.length).fill(false)
+    keep[0] = true
+    keep[points.length - 1] = true
+    const stack: [number, number][] = [[0, points.length - 1]]
+
+    while (stack.length > 0) {
+      const [first, last] = stack.pop()!
+      let maxDistance = 0
+      let index = -1
+      for (let i = first + 1; i < last; i++) {
+        const distance = this.distanceToSegment(points[i], points[first], points[last])
+        if (distance > maxDistance) {
+          maxDistance = distance
+          index = i
+        }
+      }
+      if (index !== -1 && maxDistance > epsilon) {
+        keep[index] = true
+        stack.push([first, index], [index, last])
+      }
+    }
+
+    return points.filter((_, i) => keep[i])
+  }
+
+  // The parts of each polyline inside the rectangle (Liang–Barsky per segment)
+  static clipPolylines(polylines: Polyline[], rect: BoundingBox): Polyline[] {
+    const inside: Polyline[] = []
+
+    for (const polyline of polylines) {
+      const pieces: Point[][] = []
+      let current: Point[] | null = null
+      let cut = false
+
+      for (let i = 1; i < polyline.points.length; i++) {
+        const a = polyline.points[i - 1]
+        const b = polyline.points[i]
+        const span = this.clipSegment(a, b, rect)
+        if (!span || span[0] > 0 || span[1] < 1) cut = true
+        if (!span) {
+          current = null
+          continue
+        }
+
+        const start = this.lerp(a, b, span[0])
+        const end = this.lerp(a, b, span[1])
+        if (current && span[0] === 0) {
+          current.push(end)
+        } else {
+          current = [start, end]
+          pieces.push(current)
+        }
+        if (span[1] < 1) current = null
+      }
+
+      for (const points of pieces) {
+        inside.push({ points, closed: polyline.closed && !cut })
+      }
+    }
+
+    return inside
+  }
+
+  private static clipSegment(a: Point, b: Point, rect: BoundingBox): [number, number] | null {
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    let from = 0
+    let to = 1
+
+    const edges: [number, number][] = [
+      [-dx, a.x - rect.minX],
+      [dx, rect.maxX - a.x],
+      [-dy, a.y - rect.minY],
+      [dy, rect.maxY - a.y]
+    ]
+    for (const [p, q] of edges) {
+      if (p === 0) {
+        if (q < 0) return null
+        continue
+      }
+      const t = q / p
+      if (p < 0) from = Math.max(from, t)
+      else to = Math.min(to, t)
+      if (from > to) return null
+    }
+
+    // A segment that only touches a corner draws nothing
+    if (from === to && (dx !== 0 || dy !== 0)) return null
+    return [from, to]
+  }
+
+  private static lerp(a: Point, b: Point, t: number): Point {
+    if (t <= 0) return a
+    if (t >= 1) return b
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }
+  }
+
+  // One speed per point, undefined where the moves set none
+  private static speedsOf(polyline: Polyline): (number | undefined)[] {
+    return polyline.speeds ?? polyline.points.map(() => undefined)
+  }
+
+  // Speeds are only kept when some move set one
+  private static withSpeeds(polyline: Polyline, speeds: (number | undefined)[]): Polyline {
+    const { speeds: _, ...rest } = polyline
+    return speeds.some(speed => speed !== undefined) ? { ...rest, speeds } : rest
+  }
+
+  private static samePoint(a: Point, b: Point, tolerance: number): boolean {
+    return Math.hypot(a.x - b.x, a.y - b.y) <= tolerance
+  }
+
+  private static distanceToSegment(point: Point, start: Point, end: Point): number {
+    const dx = end.x - start.x
+    const dy = end.y - start.y
+    const lengthSquared = dx * dx + dy * dy
+    if (lengthSquared === 0) {
+      return Math.hypot(point.x - start.x, point.y - start.y)
+    }
+    const t = Math.max(0, Math.min(1,
+      ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared
+    ))
+    return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy))
+  }
+
   static optimizePlotterMoves(
     moves: PlotterMove[], 
     simulationMode: boolean = false
@@ -82,20 +589,32 @@ export class PathProcessor {
       return moves;
     }
 
-    // Original optimization logic
+    // Merge consecutive draw moves that continue in a straight line;
+    // stroke ordering is handled by StrokeOptimizer
     return moves.reduce((acc, move, i) => {
-      if (i === 0) return [move];
+      if (i === 0) return [{ ...move }];
       
       const prev = acc[acc.length - 1];
-      if (prev.type === move.type && move.type === 'draw') {
-        prev.x = move.x;
-        prev.y = move.y;
+      const beforePrev = acc[acc.length - 2];
+      if (prev.type === 'draw' && move.type === 'draw' &&
+          move.z === undefined && prev.z === undefined && beforePrev &&
+          move.pen === prev.pen &&
+          this.isCollinear(beforePrev, prev, move)) {
+        acc[acc.length - 1] = { ...prev, x: move.x, y: move.y };
         return acc;
       }
       
-      return [...acc, move];
+      acc.push({ ...move });
+      return acc;
     }, [] as PlotterMove[]);
   }
+
+  // True when b lies on the segment a→c, continuing in the same direction
+  private static isCollinear(a: Point, b: Point, c: Point): boolean {
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x)
+    const dot = (b.x - a.x) * (c.x - b.x) + (b.y - a.y) * (c.y - b.y)
+    return Math.abs(cross) < 1e-9 && dot >= 0
+  }
 }
 
 export class PathOptimizer {
@@ -157,25 +676,51 @@ export class PathOptimizer {
   }
 }
 
+// Asked to confirm that the given pen is loaded before its layer is
+// plotted; layer counts from 0
+export type PenChangeHandler = (pen: PenAssignment, layer: number, layerCount: number) => Promise<boolean>;
+
+export interface SequenceEstimate {
+  duration: number;        // seconds of motion, not counting pen changes
+  drawDistance: number;    // mm with the pen down
+  travelDistance: number;  // mm with the pen up
+  penChanges: number;
+}
+
+// idle -> running, then pausing -> paused -> resuming -> running as often as
+// needed. Cancelling can follow any of them and ends back at idle.
+export type ExecutionState = 'idle' | 'running' | 'pausing' | 'paused' | 'resuming' | 'cancelling';
+
+export type ExecutionListener = (state: ExecutionState) => void;
+
 export class PathExecutor {
   private readonly validator: MovementValidator;  // Declare as class property
   private readonly calibration: SimpleCalibration;
+  private readonly backlash: { X: number, Y: number };
   private currentX: number = 0;
   private currentY: number = 0;
+  // Last direction each axis travelled in (-1, 0 unknown, 1)
+  private lastDirection: Point = { x: 0, y: 0 };
+  private state: ExecutionState = 'idle';
+  private stateListeners: ExecutionListener[] = [];
+  private wake: (() => void) | null = null;
 
   constructor(
-    private readonly plotter: PlotterControl,
+    private readonly plotter: PlotterDriver,
     calibrationSettings: CalibrationSettings,
     private readonly simulationMode: boolean = false,
     private readonly moveSpeed: number = 50,
     private readonly drawSpeed: number = 30,
-    validatorOverride?: MovementValidator
+    validatorOverride?: MovementValidator,
+    private readonly motionLimits: MotionLimits = DEFAULT_MOTION_LIMITS,
+    private readonly penChangePosition: Point = PEN_CHANGE_POSITION
   ) {
     // Convert CalibrationSettings to SimpleCalibration
     this.calibration = {
       x: calibrationSettings.degreesPerMM.X,
       y: calibrationSettings.degreesPerMM.Y
     };
+    this.backlash = calibrationSettings.backlash ?? { X: 0, Y: 0 };
     
     // Initialize validator
     this.validator = validatorOverride || new MovementValidator(
@@ -185,10 +730,20 @@ export class PathExecutor {
     );
   }
 
+  // Plots one pen layer at a time. Between layers the pen is parked and
+  // onPenChange must confirm the swap; returning false cancels the rest.
+  // Resolves true once plotted, false when stopped with cancel() or at a
+  // declined pen change.
   async executeSequence(
     sequence: PlotterSequence,
-    onProgress?: (progress: number) => void
-  ): Promise<void> {
+    onProgress?: (progress: number) => void,
+    onPenChange?: PenChangeHandler
+  ): Promise<boolean> {
+    if (this.state !== 'idle') {
+      throw new Error('A sequence is already running');
+    }
+    this.setState('running');
+
     try {
       // Validate sequence
       const validationResult = this.validator.validateSequence(sequence);
@@ -196,66 +751,334 @@ export class PathExecutor {
         throw new Error(`Invalid sequence: ${validationResult.reason}`);
       }
 
+      // Plan from where the plotter really is; it may have been jogged
+      // since the last sequence
+      if (!this.simulationMode) {
+        const position = this.plotter.getPositionUpdate();
+        this.currentX = position.x;
+        this.currentY = position.y;
+      }
+
       // Optimize moves
-      const optimizedMoves = PathProcessor.optimizePlotterMoves(sequence.moves);
-      const totalMoves = optimizedMoves.length;
+      const layers = PathProcessor.splitLayers(sequence.moves, sequence.pens).map(layer => ({
+        ...layer,
+        moves: PathProcessor.optimizePlotterMoves(layer.moves)
+      }));
+      if (layers.length > 1 && !onPenChange) {
+        throw new Error(`Sequence uses ${layers.length} pens but pen changes cannot be confirmed`);
+      }
+      const totalMoves = layers.reduce((sum, layer) => sum + layer.moves.length, 0);
+      let completed = 0;
+      let penPosition = PEN_POSITIONS.UP;
 
-      // Execute each move
-      for (let i = 0; i < totalMoves; i++) {
-        const move = optimizedMoves[i];
+      for (let layer = 0; layer < layers.length; layer++) {
+        const { pen, moves } = layers[layer];
 
-        if (this.simulationMode) {
-          await this.simulateMove(move);
-        } else {
-          await this.executeMove(move);
+        if (layer > 0) {
+          await this.parkPen();
+          penPosition = PEN_POSITIONS.UP;
+          // Declining the swap is a cancel; the pen is already lifted
+          const confirmed = await onPenChange?.(pen, layer, layers.length);
+          if (this.isCancelling() || !confirmed) {
+            return false;
+          }
         }
 
-        // Update progress
-        if (onProgress) {
-          onProgress((i + 1) / totalMoves * 100);
+        // Plan backlash take-up and velocity profiles for the whole layer up front
+        const takeUps = this.planBacklash(moves);
+        const blocks = this.planMoves(moves, takeUps);
+
+        // Execute each move
+        for (let i = 0; i < moves.length; i++) {
+          const move = moves[i];
+
+          if (this.simulationMode) {
+            await this.simulateMove(move, blocks[i]);
+          } else {
+            await this.executeMove(move, blocks[i], takeUps[i]);
+          }
+          if (typeof move.z === 'number') {
+            penPosition = move.z;
+          }
+
+          // Update progress
+          completed++;
+          if (onProgress) {
+            onProgress(completed / totalMoves * 100);
+          }
+
+          // Pause and cancel take effect between moves
+          if (this.executionState !== 'running') {
+            if (!(await this.interrupt(penPosition))) {
+              await this.liftPen();
+              return false;
+            }
+
+            // The plotter stopped here, so plan the rest of the layer again
+            const rest = moves.slice(i + 1);
+            takeUps.splice(i + 1, rest.length, ...this.planBacklash(rest));
+            blocks.splice(i + 1, rest.length, ...this.planMoves(rest, takeUps.slice(i + 1)));
+          }
         }
       }
 
       // Ensure pen is up at end
-      if (!this.simulationMode) {
-        await this.plotter.rotateByDegrees('C', 0, 30); // Pen up
-      }
+      await this.liftPen();
+      return true;
 
     } catch (error) {
       console.error('Sequence execution failed:', error);
       throw error;
+    } finally {
+      this.wake = null;
+      this.setState('idle');
+    }
+  }
+
+  get executionState(): ExecutionState {
+    return this.state;
+  }
+
+  onStateChange(listener: ExecutionListener): () => void {
+    this.stateListeners.push(listener);
+    return () => {
+      this.stateListeners = this.stateListeners.filter(l => l !== listener);
+    };
+  }
+
+  // Stop at the end of the current move with the pen lifted
+  pause(): void {
+    if (this.state !== 'running') {
+      throw new Error(`Cannot pause while ${this.state}`);
+    }
+    this.setState('pausing');
+  }
+
+  // Return to where the pause stopped, lower the pen and carry on. A pause
+  // that has not taken hold yet is simply withdrawn.
+  resume(): void {
+    if (this.state === 'pausing') {
+      this.setState('running');
+      return;
+    }
+    if (this.state !== 'paused') {
+      throw new Error(`Cannot resume while ${this.state}`);
+    }
+    this.setState('resuming');
+    this.wake?.();
+  }
+
+  // Stop at the end of the current move, or straight away when paused;
+  // executeSequence then lifts the pen and resolves false
+  cancel(): void {
+    if (this.state === 'idle') {
+      throw new Error('No sequence is running');
+    }
+    this.setState('cancelling');
+    this.wake?.();
+  }
+
+  private setState(state: ExecutionState): void {
+    if (state === this.state) return;
+    this.state = state;
+    this.stateListeners.forEach(listener => listener(state));
+  }
+
+  // Handle a pause or cancel between moves. Resolves false when the
+  // sequence should stop, true once it is back where it left off.
+  private async interrupt(penPosition: number): Promise<boolean> {
+    const resumeAt = { x: this.currentX, y: this.currentY };
+    await this.liftPen();
+
+    if (this.state === 'pausing') {
+      const resumed = new Promise<void>(resolve => { this.wake = resolve; });
+      this.setState('paused');
+      await resumed;
+      this.wake = null;
+    }
+    if (this.state === 'cancelling') {
+      return false;
+    }
+
+    // The plotter may have been jogged while paused
+    if (!this.simulationMode) {
+      await this.returnTo(resumeAt);
+      if (penPosition !== PEN_POSITIONS.UP) {
+        await this.plotter.setPen(penPosition);
+      }
     }
+    if (this.state === 'resuming') {
+      this.setState('running');
+    }
+    return !this.isCancelling();
+  }
+
+  // A method, so checks after an await are not narrowed away
+  private isCancelling(): boolean {
+    return this.state === 'cancelling';
   }
 
-  private async executeMove(move: PlotterMove): Promise<void> {
+  private async liftPen(): Promise<void> {
+    if (!this.simulationMode) {
+      await this.plotter.setPen(PEN_POSITIONS.UP);
+    }
+  }
+
+  // Travel with the pen as it is, from wherever the plotter really is
+  private async returnTo(point: Point): Promise<void> {
+    const position = this.plotter.getPositionUpdate();
+    this.currentX = position.x;
+    this.currentY = position.y;
+
+    const move: PlotterMove[] = [{ type: 'move', x: point.x, y: point.y }];
+    const takeUps = this.planBacklash(move);
+    const [block] = this.planMoves(move, takeUps);
+    await this.executeMove(move[0], block, takeUps[0]);
+  }
+
+  // Plan a sequence the way executeSequence would, without moving anything
+  estimate(sequence: PlotterSequence): SequenceEstimate {
+    const start = { x: this.currentX, y: this.currentY, direction: this.lastDirection };
+    const estimate: SequenceEstimate = { duration: 0, drawDistance: 0, travelDistance: 0, penChanges: 0 };
+    let penDown = false;
+
     try {
-      // Handle pen movement first if needed
-      if (typeof move.z === 'number') {
-        await this.plotter.rotateByDegrees('C', move.z, 30);
+      const layers = PathProcessor.splitLayers(sequence.moves, sequence.pens);
+      layers.forEach((layer, l) => {
+        const moves = PathProcessor.optimizePlotterMoves(layer.moves);
+        if (l > 0) {
+          moves.unshift(this.parkMove());
+          estimate.penChanges++;
+        }
+
+        const blocks = this.planMoves(moves, this.planBacklash(moves));
+        moves.forEach((move, i) => {
+          if (typeof move.z === 'number') {
+            penDown = move.z !== PEN_POSITIONS.UP;
+          }
+          const distance = Math.hypot(move.x - this.currentX, move.y - this.currentY);
+          if (penDown) {
+            estimate.drawDistance += distance;
+          } else {
+            estimate.travelDistance += distance;
+          }
+          estimate.duration += blocks[i]?.duration ?? 0;
+
+          this.lastDirection = this.directionOf(move.x - this.currentX, move.y - this.currentY, this.lastDirection);
+          this.currentX = move.x;
+          this.currentY = move.y;
+        });
+      });
+    } finally {
+      this.currentX = start.x;
+      this.currentY = start.y;
+      this.lastDirection = start.direction;
+    }
+
+    return estimate;
+  }
+
+  private parkMove(): PlotterMove {
+    return { type: 'move', x: this.penChangePosition.x, y: this.penChangePosition.y, z: PEN_POSITIONS.UP };
+  }
+
+  // Lift the pen and move it where it can be swapped
+  private async parkPen(): Promise<void> {
+    const park: PlotterMove[] = [this.parkMove()];
+    const takeUps = this.planBacklash(park);
+    const [block] = this.planMoves(park, takeUps);
+
+    if (this.simulationMode) {
+      await this.simulateMove(park[0], block);
+    } else {
+      await this.executeMove(park[0], block, takeUps[0]);
+    }
+  }
+
+  // Take-up travel in mm to run before each move, for every axis that
+  // reverses direction (null when no axis does)
+  private planBacklash(moves: PlotterMove[]): (Point | null)[] {
+    let direction = { ...this.lastDirection };
+    let x = this.currentX;
+    let y = this.currentY;
+
+    return moves.map(move => {
+      const next = this.directionOf(move.x - x, move.y - y, direction);
+      const takeUp = {
+        x: direction.x !== 0 && next.x !== direction.x ? next.x * this.backlash.X : 0,
+        y: direction.y !== 0 && next.y !== direction.y ? next.y * this.backlash.Y : 0
+      };
+      direction = next;
+      x = move.x;
+      y = move.y;
+      return takeUp.x !== 0 || takeUp.y !== 0 ? takeUp : null;
+    });
+  }
+
+  // Axes that do not move keep their previous direction
+  private directionOf(dx: number, dy: number, previous: Point): Point {
+    const sign = (delta: number, fallback: number) =>
+      Math.abs(delta) < MotionPlanner.MIN_SEGMENT_LENGTH ? fallback : Math.sign(delta);
+    return { x: sign(dx, previous.x), y: sign(dy, previous.y) };
+  }
+
+  // Motion block for each move (null when the move does not travel).
+  // Pen changes and backlash take-up happen at rest, so the block before
+  // one must stop.
+  private planMoves(moves: PlotterMove[], takeUps: (Point | null)[] = []): (MotionBlock | null)[] {
+    const segments: MotionSegment[] = [];
+    const segmentMoves: number[] = [];
+    let x = this.currentX;
+    let y = this.currentY;
+
+    moves.forEach((move, i) => {
+      if (Math.hypot(move.x - x, move.y - y) >= MotionPlanner.MIN_SEGMENT_LENGTH) {
+        segments.push({
+          start: { x, y },
+          end: { x: move.x, y: move.y },
+          speed: move.speed ?? (move.type === 'move' ? this.moveSpeed : this.drawSpeed),
+          stopAfter: typeof moves[i + 1]?.z === 'number' || !!takeUps[i + 1]
+        });
+        segmentMoves.push(i);
       }
+      x = move.x;
+      y = move.y;
+    });
 
-      // Calculate move parameters
-      const deltaX = move.x - this.currentX;
-      const deltaY = move.y - this.currentY;
-      const degreesX = deltaX * this.calibration.x;
-      const degreesY = deltaY * this.calibration.y;
+    const blocks: (MotionBlock | null)[] = moves.map(() => null);
+    MotionPlanner.plan(segments, this.motionLimits).forEach((block, i) => {
+      blocks[segmentMoves[i]] = block;
+    });
+    return blocks;
+  }
 
-      // Calculate speed based on distance
-      const distance = Math.sqrt(deltaX * deltaX + deltaY * deltaY);
-      const baseSpeed = move.type === 'move' ? this.moveSpeed : this.drawSpeed;
-      const time = distance / baseSpeed;
+  private async executeMove(
+    move: PlotterMove,
+    block: MotionBlock | null,
+    takeUp: Point | null = null
+  ): Promise<void> {
+    try {
+      // Handle pen movement first if needed
+      if (typeof move.z === 'number') {
+        await this.plotter.setPen(move.z);
+      }
 
-      // Adjust speeds to maintain straight line
-      const speedX = Math.abs(degreesX / time);
-      const speedY = Math.abs(degreesY / time);
+      // Turn the motors through the slack before reversing an axis; the
+      // pen does not move during this
+      if (takeUp) {
+        await Promise.all([
+          takeUp.x !== 0 && this.plotter.rotateByDegrees('B', takeUp.x * this.calibration.x, this.moveSpeed),
+          takeUp.y !== 0 && this.plotter.rotateByDegrees('A', takeUp.y * this.calibration.y, this.moveSpeed)
+        ]);
+      }
 
-      // Execute coordinated movement
-      await Promise.all([
-        this.plotter.rotateByDegrees('B', degreesX, speedX),
-        this.plotter.rotateByDegrees('A', degreesY, speedY)
-      ]);
+      // Run the planned velocity profile on both axes
+      if (block) {
+        await this.plotter.executeMotion(MotionPlanner.toSteps(block, this.calibration));
+      }
 
       // Update current position
+      this.lastDirection = this.directionOf(move.x - this.currentX, move.y - this.currentY, this.lastDirection);
       this.currentX = move.x;
       this.currentY = move.y;
 
@@ -265,8 +1088,10 @@ export class PathExecutor {
     }
   }
 
-  private async simulateMove(move: PlotterMove): Promise<void> {
-    await new Promise(resolve => setTimeout(resolve, 100));
+  private async simulateMove(move: PlotterMove, block: MotionBlock | null): Promise<void> {
+    const duration = block ? block.duration * 1000 : 0;
+    await new Promise(resolve => setTimeout(resolve, duration));
+    this.lastDirection = this.directionOf(move.x - this.currentX, move.y - this.currentY, this.lastDirection);
     this.currentX = move.x;
     this.currentY = move.y;
   }
@@ -285,7 +1110,7 @@ export class PathExecutor {
 
       // Ensure pen is up at end
       if (!this.simulationMode) {
-        await this.plotter.rotateByDegrees('C', 0, 30); // Pen up
+        await this.plotter.setPen(PEN_POSITIONS.UP);
       }
 
     } catch (error) {
@@ -297,8 +1122,7 @@ export class PathExecutor {
   private async executePathSegment(segment: PathSegment): Promise<void> {
     try {
       // Set pen position
-      const penDegrees = segment.type === 'move' ? 0 : -45;
-      await this.plotter.rotateByDegrees('C', penDegrees, 30);
+      await this.plotter.setPen(segment.type === 'move' ? PEN_POSITIONS.UP : PEN_POSITIONS.DOWN);
 
       // Calculate movement parameters
       const dx = segment.end.x - segment.start.x;
@@ -345,5 +1169,6 @@ export class PathExecutor {
   resetPosition(): void {
     this.currentX = 0;
     this.currentY = 0;
+    this.lastDirection = { x: 0, y: 0 };
   }
 }
\ No newline at end of file
@@ -1,9 +1,11 @@
 // lib/plotter.simulation.ts
 
 import type { Device } from './types';
-import { Position, PlotterSequence } from '@/lib/types'
+import { PositionUpdate, MotionStep, SimpleCalibration, DEFAULT_CALIBRATION } from '@/lib/types'
 import { CommandQueue } from '@/lib/CommandQueue'
+import { DriverCapabilities, DriverEventMap, DriverEvents, DriverListener, HubLike, MotorDirection, MotorStatus, PlotterDriver } from '@/lib/PlotterDriver'
 
+const PEN_SPEED = 30;
 
 interface SimulatedMotor extends Device {
   currentPosition: number;
@@ -12,24 +14,45 @@ interface SimulatedMotor extends Device {
   isMoving: boolean;
   listeners: Map<string, Function[]>;
   interval?: ReturnType<typeof setInterval>;
+  emitRotate(): void;
 }
 
-export class PlotterControl {
-  poweredUP: any;
-  hub: any;
+// Motors and hub simulated in memory; no Bluetooth needed
+export class SimulatedPlotterControl implements PlotterDriver {
+  readonly id = 'simulation';
+  readonly name = 'Simulator';
+  readonly capabilities: DriverCapabilities = {
+    simulated: true,
+    encoderFeedback: false,
+    motionProfiles: true,
+    signalStrength: true,
+    ports: ['A', 'B', 'C']
+  };
+  hub: HubLike;
   motors: Record<string, SimulatedMotor>;
   positionTracking: Record<string, number>;
   intervalId: ReturnType<typeof setInterval> | null;  // Fixed timer type
   isMoving: boolean;
-  private positionUpdateCallbacks: ((position: Position) => void)[] = [];
+  private connected = false;
+  private calibration: SimpleCalibration;
+  private readonly timeScale: number;
+  private readonly events = new DriverEvents();
   public commandQueue: CommandQueue;
 
-  constructor(private readonly simulationMode = true) {
+  // timeScale above 1 runs the simulation faster than the real plotter
+  constructor(calibration: SimpleCalibration = DEFAULT_CALIBRATION, timeScale: number = 1) {
+    if (!(timeScale > 0)) {
+      throw new Error('Simulation time scale must be greater than 0');
+    }
+    this.calibration = { x: calibration.x, y: calibration.y };
+    this.timeScale = timeScale;
     this.hub = {
       name: 'Simulated Hub',
+      connected: false,
       connect: async () => Promise.resolve(),
       disconnect: async () => Promise.resolve(),
       batteryLevel: 100,
+      rssi: -50,  // Simulate good signal strength
       on: (event: string, callback: Function) => {
         if (event === 'disconnect') {
           // Store disconnect callback if needed
@@ -54,18 +77,36 @@ export class PlotterControl {
     this.commandQueue = new CommandQueue();
   }
 
-  onPositionUpdate(callback: (position: Position) => void) {
-    this.positionUpdateCallbacks.push(callback);
-    return () => {
-      this.positionUpdateCallbacks = this.positionUpdateCallbacks.filter(cb => cb !== callback);
+  setCalibration(calibration: SimpleCalibration) {
+    this.calibration = { x: calibration.x, y: calibration.y };
+  }
+
+  on<E extends keyof DriverEventMap>(event: E, listener: DriverListener<E>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // Pen position in mm from the X (B) and Y (A) motors. Read from the
+  // motors so both axes agree while they are being updated in turn.
+  getPositionUpdate(): PositionUpdate {
+    return {
+      x: this.motors.B.currentPosition / this.calibration.x,
+      y: this.motors.A.currentPosition / this.calibration.y
     };
   }
 
-  private notifyPositionUpdate(position: Position) {
-    this.positionUpdateCallbacks.forEach(callback => callback(position));
+  // Record a motor's new angle and pass it on
+  private track(port: string, degrees: number) {
+    this.positionTracking[port] = degrees;
+    this.events.emit('rotate', { port, degrees });
+    if (port === 'A' || port === 'B') {
+      this.events.emit('position', this.getPositionUpdate());
+    }
   }
 
   private createSimulatedMotor(portName: string): SimulatedMotor {
+    const track = (degrees: number) => this.track(portName, degrees);
+    const timeScale = this.timeScale;
+
     return {
       portName,
       typeName: 'motor',
@@ -88,6 +129,12 @@ export class PlotterControl {
         this.listeners.delete(event);
       },
 
+      emitRotate(): void {
+        const rotateListeners = this.listeners.get('rotate') || [];
+        rotateListeners.forEach(listener => listener(this.currentPosition));
+        track(this.currentPosition);
+      },
+
       async setPower(power: number): Promise<void> {
         this.currentPower = power;
         this.isMoving = power !== 0;
@@ -100,29 +147,34 @@ export class PlotterControl {
       },
 
       async rotateByDegrees(degrees: number, speed: number): Promise<void> {
-        this.targetPosition = this.currentPosition + degrees;
-        this.currentPower = degrees > 0 ? speed : -speed;
-        this.isMoving = true;
-
         if (this.interval) {
           clearInterval(this.interval);
         }
+        if (Math.abs(degrees) < 0.1 || speed === 0) return;
+
+        const targetPosition = this.currentPosition + degrees;
+        this.targetPosition = targetPosition;
+        this.currentPower = degrees > 0 ? Math.abs(speed) : -Math.abs(speed);
+        this.isMoving = true;
 
         return new Promise<void>((resolve) => {
           this.interval = setInterval(() => {
-            const increment = (this.currentPower / 100) * 2;
-            this.currentPosition += increment;
+            const increment = (this.currentPower / 100) * 2 * timeScale;
 
-            if (Math.abs(this.currentPosition - this.targetPosition!) < 0.1) {
-              this.currentPosition = this.targetPosition!;
+            // Stop on the target rather than stepping past it
+            if (Math.abs(targetPosition - this.currentPosition) <= Math.abs(increment)) {
+              this.currentPosition = targetPosition;
+              this.targetPosition = null;
               this.isMoving = false;
               this.currentPower = 0;
               clearInterval(this.interval);
+              this.emitRotate();
               resolve();
+              return;
             }
 
-            const rotateListeners = this.listeners.get('rotate') || [];
-            rotateListeners.forEach(listener => listener(this.currentPosition));
+            this.currentPosition += increment;
+            this.emitRotate();
           }, 50);
         });
       },
@@ -142,31 +194,21 @@ export class PlotterControl {
   async connect(): Promise<void> {
     await new Promise(resolve => setTimeout(resolve, 500));
     this.startPositionSimulation();
-    return Promise.resolve();
+    this.connected = true;
+    this.hub.connected = true;
+    this.events.emit('connection', true);
   }
 
+  // Free-running motors (runMotor, setPower) turn until stopped; moves to a
+  // target step themselves in rotateByDegrees
   private startPositionSimulation() {
+    if (this.intervalId) return;
+
     this.intervalId = setInterval(() => {
       Object.values(this.motors).forEach(motor => {
-        if (motor.isMoving && motor.currentPower !== 0) {
-          const increment = (motor.currentPower / 100) * 2;
-          motor.currentPosition += increment;
-          
-          // Stop if target reached
-          if (motor.targetPosition !== null && 
-              Math.abs(motor.currentPosition - motor.targetPosition) < 0.1) {
-            motor.currentPosition = motor.targetPosition;
-            motor.isMoving = false;
-            motor.currentPower = 0;
-          }
-          
-          this.positionTracking[motor.portName] = motor.currentPosition;
-          const rotateListeners = motor.listeners.get('rotate') || [];
-          rotateListeners.forEach(listener => listener(motor.currentPosition));
-          this.notifyPositionUpdate({
-            x: this.positionTracking.B,
-            y: this.positionTracking.A
-          });
+        if (motor.isMoving && motor.currentPower !== 0 && motor.targetPosition === null) {
+          motor.currentPosition += (motor.currentPower / 100) * 2 * this.timeScale;
+          motor.emitRotate();
         }
       });
     }, 50);
@@ -175,9 +217,14 @@ export class PlotterControl {
   async disconnect(): Promise<void> {
     if (this.intervalId) {
       clearInterval(this.intervalId);
+      this.intervalId = null;
     }
     this.cleanup();
-    return Promise.resolve();
+    if (this.connected) {
+      this.connected = false;
+      this.hub.connected = false;
+      this.events.emit('connection', false);
+    }
   }
 
   cleanup(): void {
@@ -191,7 +238,7 @@ export class PlotterControl {
         clearInterval(motor.interval);
       }
     });
-    
+
     this.positionTracking = {
       A: 0,
       B: 0,
@@ -200,7 +247,7 @@ export class PlotterControl {
     this.isMoving = false;
   }
 
-  async runMotor(motorPort: string, direction: string, speed = 50): Promise<void> {
+  async runMotor(motorPort: string, direction: MotorDirection, speed = 50): Promise<void> {
     const motor = this.motors[motorPort];
     if (!motor) throw new Error(`Motor ${motorPort} not connected`);
 
@@ -211,7 +258,7 @@ export class PlotterControl {
   async stopMotor(motorPort: string): Promise<void> {
     const motor = this.motors[motorPort];
     if (!motor) throw new Error(`Motor ${motorPort} not connected`);
-    
+
     motor.currentPower = 0;
     motor.isMoving = false;
     motor.targetPosition = null;
@@ -220,60 +267,79 @@ export class PlotterControl {
   async rotateByDegrees(motorPort: string, degrees: number, speed: number): Promise<void> {
     const motor = this.motors[motorPort];
     if (!motor) throw new Error(`Motor ${motorPort} not connected`);
-    
-    const targetPosition = motor.currentPosition + degrees;
 
-    motor.targetPosition = targetPosition;
-    motor.currentPower = degrees > 0 ? speed : -speed;
-    motor.isMoving = true;
+    await motor.rotateByDegrees(degrees, speed);
+  }
+
+  // Run a planned motion profile, interpolating every port linearly
+  // across each step so the simulated timing matches the plan
+  async executeMotion(steps: MotionStep[]): Promise<void> {
+    for (const step of steps) {
+      const ports = Object.keys(step.degrees);
+      for (const port of ports) {
+        if (!this.motors[port]) throw new Error(`Motor ${port} not connected`);
+      }
+
+      const startPositions = ports.map(port => this.motors[port].currentPosition);
+      const startTime = Date.now();
+      const duration = step.duration / this.timeScale;
 
-    if (motor.interval) {
-      clearInterval(motor.interval);
+      await new Promise<void>((resolve) => {
+        const tick = () => {
+          const elapsed = Date.now() - startTime;
+          const progress = duration > 0 ? Math.min(1, elapsed / duration) : 1;
+
+          ports.forEach((port, i) => {
+            this.motors[port].currentPosition = startPositions[i] + step.degrees[port] * progress;
+          });
+          ports.forEach(port => this.motors[port].emitRotate());
+
+          if (progress >= 1) {
+            resolve();
+          } else {
+            setTimeout(tick, Math.min(50, duration - elapsed));
+          }
+        };
+        tick();
+      });
     }
+  }
 
-    return new Promise<void>((resolve) => {  // explicit Promise type
-      motor.interval = setInterval(() => {
-        // Update position based on speed and direction
-        const increment = (motor.currentPower / 100) * 2;
-        motor.currentPosition += increment;
-
-        // Check if target reached
-        if (Math.abs(motor.currentPosition - targetPosition) < 0.1) {
-          motor.currentPosition = targetPosition;
-          motor.isMoving = false;
-          motor.currentPower = 0;
-          clearInterval(motor.interval);
-          resolve();
-        }
+  // Absolute move in mm, both axes together
+  async moveTo(x: number, y: number): Promise<void> {
+    await Promise.all([
+      this.rotateByDegrees('B', x * this.calibration.x - this.motors.B.currentPosition, 50),
+      this.rotateByDegrees('A', y * this.calibration.y - this.motors.A.currentPosition, 50)
+    ]);
+  }
 
-        // Emit position update
-        const rotateListeners = motor.listeners.get('rotate') || [];
-        rotateListeners.forEach(listener => listener(motor.currentPosition));
-      }, 50);
-    });
+  // Turn the pen motor to an absolute angle
+  async setPen(position: number): Promise<void> {
+    await this.rotateByDegrees('C', position - this.motors.C.currentPosition, PEN_SPEED);
   }
 
   getMotorPosition(motorPort: string): number {
-    return this.positionTracking[motorPort];
+    return this.positionTracking[motorPort] ?? 0;
+  }
+
+  getMotorStatus(port: string): MotorStatus {
+    const motor = this.motors[port];
+    return {
+      exists: !!motor,
+      isAbsoluteMotor: !!motor,
+      position: this.getMotorPosition(port)
+    };
   }
 
   getDeviceAtPort(port: string) {
     return this.motors[port];
   }
 
-  // Add these methods to the simulated hub
   isConnected(): boolean {
-    if (this.simulationMode) {
-      return true;
-    }
-    // For real hub, check if it exists and has connected property
-    return !!this.hub && (
-      // Handle both possible PoweredUP hub properties
-      ('connected' in this.hub ? this.hub.connected : this.hub.isConnected)
-    );
+    return this.connected;
   }
 
-  getRSSI() {
-    return -50;  // Simulate good signal strength
+  getRSSI(): number | null {
+    return this.hub.rssi ?? null;
   }
-}
\ No newline at end of file
+}
@@ -1,63 +1,97 @@
 // lib/plotter.ts
-import { Position, PlotterSequence } from '@/lib/types'
+import { PositionUpdate, PlotterSequence, MotionStep, SimpleCalibration, DEFAULT_CALIBRATION } from '@/lib/types'
 import { CommandQueue } from '@/lib/CommandQueue'
+import { DriverCapabilities, DriverEventMap, DriverEvents, DriverListener, HubLike, MotorDevice, MotorDirection, MotorStatus, PlotterDriver, PoweredUPLike, RotateEvent } from '@/lib/PlotterDriver'
 
 declare global {
   interface Window {
-    PoweredUP: any
+    PoweredUP?: { PoweredUP: new () => PoweredUPLike }
   }
 }
 
-export class PlotterControl {
-  poweredUP: any;
-  hub: any;
-  motors: Record<string, any> = {
+// Encoder bookkeeping for one port, in motor degrees
+interface AxisState {
+  commanded: number
+  measured: number
+}
+
+const POSITION_TOLERANCE = 2   // degrees of residual error accepted after a move
+const MAX_CORRECTIONS = 3
+const CORRECTION_SPEED = 20
+const SETTLE_TIME = 50         // ms for the final encoder report to arrive
+const PEN_SPEED = 30
+
+// Powered UP hub over Web Bluetooth
+export class PlotterControl implements PlotterDriver {
+  readonly id = 'poweredup';
+  readonly name = 'LEGO Powered UP hub';
+  readonly capabilities: DriverCapabilities = {
+    simulated: false,
+    encoderFeedback: true,
+    motionProfiles: true,
+    signalStrength: true,
+    ports: ['A', 'B', 'C']
+  };
+  poweredUP?: PoweredUPLike;
+  hub: HubLike | null = null;
+  motors: Record<string, MotorDevice | null> = {
     A: null,
     B: null,
     C: null
   };
   private readonly simulationMode: boolean;
-  private positionUpdateCallbacks: ((position: Position) => void)[] = [];
+  private readonly events = new DriverEvents();
+  private axes: Record<string, AxisState> = {};
+  private calibration: SimpleCalibration;
   public commandQueue: CommandQueue;    
 
-  constructor(simulationMode: boolean = false) {
+  constructor(simulationMode: boolean = false, calibration: SimpleCalibration = DEFAULT_CALIBRATION, poweredUP?: PoweredUPLike) {
     this.simulationMode = simulationMode;
+    this.calibration = { x: calibration.x, y: calibration.y };
     this.commandQueue = new CommandQueue();  // Initialize CommandQueue
-    if (typeof window !== 'undefined' && window.PoweredUP) {
+    if (poweredUP) {
+      // Node hosts pass node-poweredup in directly
+      this.poweredUP = poweredUP;
+    } else if (typeof window !== 'undefined' && window.PoweredUP) {
       this.poweredUP = new window.PoweredUP.PoweredUP();
     }
   }
 
   async connect(): Promise<void> {
-    if (!this.poweredUP && !this.simulationMode) {
+    const poweredUP = this.poweredUP;
+    if (!poweredUP) {
       throw new Error('PoweredUP not initialized');
     }
 
     return new Promise((resolve, reject) => {
-      this.poweredUP.on('discover', async (discoveredHub: any) => {
+      poweredUP.on('discover', async (discoveredHub) => {
         try {
           console.log('Hub discovered:', discoveredHub);
           await discoveredHub.connect();
           this.hub = discoveredHub;
           console.log('Connected to hub:', discoveredHub.name);
 
-          discoveredHub.on('attach', (device: any) => {
+          discoveredHub.on('attach', (device) => {
             console.log('Device attached:', {
               port: device.portName,
               type: device.type,
               typeName: device.typeName
             });
 
-            if (['A', 'B', 'C'].includes(device.portName)) {
+            if (device.portName && ['A', 'B', 'C'].includes(device.portName)) {
               this.motors[device.portName] = device;
+              this.trackEncoder(device.portName, device);
             }
           });
 
           discoveredHub.on('disconnect', () => {
             this.hub = null;
             this.motors = { A: null, B: null, C: null };
+            this.axes = {};
+            this.events.emit('connection', false);
           });
 
+          this.events.emit('connection', true);
           resolve();
         } catch (error) {
           console.error('Connection failed:', error);
@@ -67,7 +101,7 @@ export class PlotterControl {
 
       try {
         console.log('Starting scan...');
-        this.poweredUP.scan();
+        poweredUP.scan();
       } catch (error) {
         console.error('Scan failed:', error);
         reject(error);
@@ -79,26 +113,81 @@ export class PlotterControl {
     if (this.hub) {
       await this.hub.disconnect();
       this.motors = { A: null, B: null, C: null };
+      this.axes = {};
       this.hub = null;
+      this.events.emit('connection', false);
     }
   }
 
-  onPositionUpdate(callback: (position: Position) => void) {
-    this.positionUpdateCallbacks.push(callback);
-    return () => {
-      this.positionUpdateCallbacks = this.positionUpdateCallbacks.filter(cb => cb !== callback);
-    };
+  setCalibration(calibration: SimpleCalibration) {
+    this.calibration = { x: calibration.x, y: calibration.y };
+  }
+
+  on<E extends keyof DriverEventMap>(event: E, listener: DriverListener<E>): () => void {
+    return this.events.on(event, listener);
   }
 
   //notify position updates
-  private notifyPositionUpdate(position: Position) {
-    this.positionUpdateCallbacks.forEach(callback => callback(position));
+  private notifyPositionUpdate(position: PositionUpdate) {
+    this.events.emit('position', position);
+  }
+
+  // Measured pen position in mm from the X (B) and Y (A) encoders
+  getPositionUpdate(): PositionUpdate {
+    const x = this.axes.B ?? { commanded: 0, measured: 0 };
+    const y = this.axes.A ?? { commanded: 0, measured: 0 };
+    return {
+      x: x.measured / this.calibration.x,
+      y: y.measured / this.calibration.y,
+      error: {
+        x: (x.commanded - x.measured) / this.calibration.x,
+        y: (y.commanded - y.measured) / this.calibration.y
+      }
+    };
+  }
+
+  // Commanded minus measured degrees on a port
+  getAxisError(port: string): number {
+    const axis = this.axes[port];
+    return axis ? axis.commanded - axis.measured : 0;
+  }
+
+  // Follow the motor's encoder through its rotate events. The encoder is
+  // zeroed first so commanded and measured positions share one frame.
+  private trackEncoder(port: string, device: MotorDevice | null): AxisState {
+    if (this.axes[port]) return this.axes[port];
+
+    const axis: AxisState = { commanded: 0, measured: 0 };
+    this.axes[port] = axis;
+
+    if (typeof device?.resetZero === 'function') {
+      Promise.resolve(device.resetZero()).catch((error: unknown) => {
+        console.error(`Error zeroing encoder on motor ${port}:`, error);
+      });
+    }
+
+    device?.on?.('rotate', (data: RotateEvent) => {
+      // node-poweredup reports { degrees }, the simulator a plain number
+      const degrees = typeof data === 'number' ? data : data.degrees;
+      if (typeof degrees !== 'number') return;
+      axis.measured = degrees;
+      this.events.emit('rotate', { port, degrees });
+      if (port === 'A' || port === 'B') {
+        this.notifyPositionUpdate(this.getPositionUpdate());
+      }
+    });
+
+    return axis;
   }
 
   isConnected(): boolean {
     return !!this.hub?.connected;
   }
 
+  getRSSI(): number | null {
+    return typeof this.hub?.rssi === 'number' ? this.hub.rssi : null;
+  }
+
   getDeviceAtPort(port: string) {
     // First check our motors object
     if (this.motors[port]) {
@@ -110,33 +199,113 @@ export class PlotterControl {
       if (device) {
         // Cache the device in our motors object
         this.motors[port] = device;
+        this.trackEncoder(port, device);
         return device;
       }
     }
     return null;
   }
 
+  // Rotate relative to the last commanded position. The motor is driven to
+  // the new target from where the encoder actually is, so any error left by
+  // earlier moves is taken up as well.
   async rotateByDegrees(port: string, degrees: number, speed: number): Promise<void> {
     const motor = this.getDeviceAtPort(port);
     if (!motor) {
       throw new Error(`Motor ${port} not found or not properly initialized`);
     }
-  
+
+    const axis = this.trackEncoder(port, motor);
+    axis.commanded += degrees;
+
     try {
-      // Convert negative degrees to backward direction
-      const direction = degrees >= 0 ? 'forward' : 'backward';
-      const absDegrees = Math.abs(degrees);
-      
-      // Convert degrees to time (rough approximation)
-      const time = (absDegrees / speed) * 1000; // milliseconds
-      
-      await motor.setPower(direction === 'forward' ? speed : -speed);
+      await this.driveTo(motor, axis, speed);
+      await this.correctPosition(port);
+    } catch (error) {
+      console.error(`Error rotating motor ${port}:`, error);
+      throw error;
+    }
+  }
+
+  // Drive a motor to its commanded position with the hub's own position
+  // control. Motors without an encoder fall back to a timed run.
+  private async driveTo(motor: MotorDevice, axis: AxisState, speed: number): Promise<void> {
+    const remaining = axis.commanded - axis.measured;
+    const absSpeed = Math.abs(speed);
+
+    if (typeof motor.gotoAngle === 'function') {
+      await motor.gotoAngle(Math.round(axis.commanded), absSpeed);
+    } else if (typeof motor.rotateByDegrees === 'function') {
+      if (Math.abs(remaining) < 1) return;
+      await motor.rotateByDegrees(Math.round(Math.abs(remaining)), remaining >= 0 ? absSpeed : -absSpeed);
+    } else {
+      if (remaining === 0 || absSpeed === 0) return;
+      const time = (Math.abs(remaining) / absSpeed) * 1000;
+      await motor.setPower(remaining >= 0 ? absSpeed : -absSpeed);
       await new Promise(resolve => setTimeout(resolve, time));
       await motor.brake();
+      // Without feedback the best guess is that the move completed
+      axis.measured = axis.commanded;
+    }
+  }
+
+  // Re-issue the target at low speed until the encoder agrees with it
+  private async correctPosition(port: string): Promise<void> {
+    const motor = this.getDeviceAtPort(port);
+    const axis = this.axes[port];
+    if (!motor || !axis) return;
+
+    for (let attempt = 0; attempt < MAX_CORRECTIONS; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, SETTLE_TIME));
+      if (Math.abs(axis.commanded - axis.measured) <= POSITION_TOLERANCE) break;
+      await this.driveTo(motor, axis, CORRECTION_SPEED);
+    }
+
+    if (Math.abs(axis.commanded - axis.measured) > POSITION_TOLERANCE) {
+      console.warn(`Motor ${port} is ${(axis.commanded - axis.measured).toFixed(1)} degrees off target`);
+    }
+    this.notifyPositionUpdate(this.getPositionUpdate());
+  }
+
+  // Run a planned motion profile. Each step holds a constant speed on every
+  // port for its duration; motors only brake once the profile is done so
+  // consecutive steps blend without stopping.
+  async executeMotion(steps: MotionStep[]): Promise<void> {
+    const ports = new Set<string>();
+    const totals: Record<string, number> = {};
+
+    try {
+      for (const step of steps) {
+        await Promise.all(Object.entries(step.degrees).map(([port, degrees]) => {
+          const motor = this.getDeviceAtPort(port);
+          if (!motor) {
+            throw new Error(`Motor ${port} not found or not properly initialized`);
+          }
+          ports.add(port);
+          totals[port] = (totals[port] ?? 0) + degrees;
+          // Speed in degrees per second doubles as motor power
+          const speed = step.duration > 0 ? (degrees / step.duration) * 1000 : 0;
+          return motor.setPower(Math.max(-100, Math.min(100, speed)));
+        }));
+        await new Promise(resolve => setTimeout(resolve, step.duration));
+      }
     } catch (error) {
-      console.error(`Error rotating motor ${port}:`, error);
+      // Interrupted part way: whatever the encoders read is the new target
+      for (const port of ports) {
+        const axis = this.trackEncoder(port, this.getDeviceAtPort(port));
+        axis.commanded = axis.measured;
+      }
       throw error;
+    } finally {
+      await Promise.all([...ports].map(port => this.brake(port)));
     }
+
+    for (const port of ports) {
+      this.trackEncoder(port, this.getDeviceAtPort(port)).commanded += totals[port];
+    }
+
+    // Power control only approximates the profile; close the gap on every axis
+    await Promise.all([...ports].map(port => this.correctPosition(port)));
   }
 
   async setPower(port: string, power: number): Promise<void> {
@@ -165,14 +334,14 @@ export class PlotterControl {
 
   getMotorPosition(port: string): number {
     const motor = this.getDeviceAtPort(port);
-    return motor?.currentPosition || 0;
+    return this.axes[port]?.measured ?? (motor?.currentPosition || 0);
   }
 
-  getMotorStatus(port: string) {
+  getMotorStatus(port: string): MotorStatus {
     const motor = this.getDeviceAtPort(port);
     return {
       exists: !!motor,
-      isAbsoluteMotor: motor && typeof motor.rotateByDegrees === 'function',
+      isAbsoluteMotor: !!motor && typeof motor.rotateByDegrees === 'function',
       position: this.getMotorPosition(port)
     };
   }
@@ -180,17 +349,17 @@ export class PlotterControl {
   async setAccelerationTime(port: string, ms: number): Promise<void> {
     const motor = this.getDeviceAtPort(port);
     if (!motor) return;
-    await motor.setAccelerationTime(ms);
+    await motor.setAccelerationTime?.(ms);
   }
 
   async setDecelerationTime(port: string, ms: number): Promise<void> {
     const motor = this.getDeviceAtPort(port);
     if (!motor) return;
-    await motor.setDecelerationTime(ms);
+    await motor.setDecelerationTime?.(ms);
   }
 
   // Add these for compatibility with existing code
-  async runMotor(port: string, direction: string, speed = 50): Promise<void> {
+  async runMotor(port: string, direction: MotorDirection, speed = 50): Promise<void> {
     const motor = this.getDeviceAtPort(port);
     if (!motor) return;
 
@@ -207,6 +376,18 @@ export class PlotterControl {
     return this.brake(port);
   }
 
+  // Turn the pen motor to an absolute angle
+  async setPen(position: number): Promise<void> {
+    const motor = this.getDeviceAtPort('C');
+    if (!motor) {
+      throw new Error('Motor C not found or not properly initialized');
+    }
+    const degrees = position - this.trackEncoder('C', motor).commanded;
+    if (degrees !== 0) {
+      await this.rotateByDegrees('C', degrees, PEN_SPEED);
+    }
+  }
+
   // Position movement
   async moveTo(x: number, y: number): Promise<void> {
     try {
@@ -217,9 +398,9 @@ export class PlotterControl {
         throw new Error('Motors not initialized. Check connection and motor ports A (Y) and B (X).');
       }
 
-      // Calculate degrees based on calibration
-      const degreesX = x * 10; // Using default calibration or this.calibration.x
-      const degreesY = y * 10; // Using default calibration or this.calibration.y
+      // Absolute target, relative to where each axis was last commanded
+      const degreesX = x * this.calibration.x - this.trackEncoder('B', motorX).commanded;
+      const degreesY = y * this.calibration.y - this.trackEncoder('A', motorY).commanded;
 
       // Execute movements with proper error handling
       await Promise.all([
@@ -0,0 +1,27 @@
+// lib/raster.worker.ts
+
+import { PlotterSequence } from '@/lib/types'
+import { GrayImage, RasterOptions, RasterVectorizer } from '@/lib/RasterVectorizer'
+
+export interface RasterWorkerRequest {
+  name: string
+  image: GrayImage
+  options: RasterOptions
+}
+
+export type RasterWorkerResponse =
+  | { sequence: PlotterSequence }
+  | { error: string }
+
+// Vectorizing a photo can take seconds; doing it here keeps the UI responsive
+self.onmessage = (event: MessageEvent<RasterWorkerRequest>) => {
+  const { name, image, options } = event.data
+  let response: RasterWorkerResponse
+  try {
+    const result = RasterVectorizer.vectorize(image, options)
+    response = { sequence: RasterVectorizer.toSequence(result, name, options.mode) }
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) }
+  }
+  self.postMessage(response)
+}
@@ -9,6 +9,10 @@ export interface CalibrationSettings {
     X: number
     Y: number
   }
+  backlash?: {
+    X: number  // mm of slack taken up when the axis reverses
+    Y: number
+  }
 }
 
 export interface Position {
@@ -16,6 +20,12 @@ export interface Position {
   y: number
 }
 
+// Measured position reported by the driver, with the remaining gap to the
+// commanded position (commanded minus measured) in mm
+export interface PositionUpdate extends Position {
+  error?: Position
+}
+
 export interface Device {
   portName: string;
   typeName: string;
@@ -120,24 +130,115 @@ export interface PathSegment {
   end: Point;
 }
 
+// A continuous pen-down stroke, e.g. one SVG subpath after flattening
+export interface Polyline {
+  points: Point[];
+  closed: boolean;
+  // Per-move speeds (mm/s) carried over from a sequence: the pen-up travel
+  // to the first point, then the draw move ending at each later point
+  speeds?: (number | undefined)[];
+}
+
+// Strokes that belong together in an imported drawing, e.g. one DXF layer
+// or everything drawn with one HPGL pen
+export interface ImportedLayer {
+  name: string;
+  polylines: Polyline[];
+}
+
+// Something an importer skipped, with its 1-based line in the source file
+export interface ImportIssue {
+  line: number;
+  message: string;
+}
+
+// 2D affine matrix [a, b, c, d, e, f], as in the SVG transform attribute
+export type Matrix = [number, number, number, number, number, number]
+
 export interface PlotterMove {
   type: 'move' | 'draw';
   x: number;
   y: number;
-  z?: number;  // For pen up/down
+  z?: number;      // For pen up/down
+  speed?: number;  // mm/s, overrides the executor's move or draw speed
+  pen?: number;    // id of the sequence pen drawing this move, the first pen when unset
 }
 
 export interface PlotterSequence {
   name: string
   moves: PlotterMove[]
-  boundingBox: {
-    minX: number
-    maxX: number
-    minY: number
-    maxY: number
-  }
+  boundingBox: BoundingBox
   estimatedTime?: number  // estimated execution time
   totalDistance?: number  // total path distance
+  paper?: PaperSize
+  pens?: PenAssignment[]
+  metadata?: SequenceMetadata
+}
+
+export interface PaperSize {
+  width: number   // mm
+  height: number
+}
+
+// A pen or tool the sequence expects to be loaded
+export interface PenAssignment {
+  id: number
+  name: string
+  color?: string   // #rrggbb
+  width?: number   // line width in mm
+}
+
+export const DEFAULT_PENS: PenAssignment[] = [{ id: 1, name: 'Pen 1', color: '#000000' }]
+
+// The moves drawn with one pen, plotted before the pen is swapped
+export interface PenLayer {
+  pen: PenAssignment
+  moves: PlotterMove[]
+}
+
+export interface SequenceMetadata {
+  createdAt: string       // ISO 8601
+  generator?: string
+  source?: string         // file the sequence was imported from
+  migratedFrom?: number   // schema version the file was upgraded from
+  placement?: PlacementTransform
+}
+
+export type PlacementFit = 'fit' | 'fill' | 'actual'
+export type PlacementAlign = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+// How imported artwork was put on the page: rotated and mirrored about
+// its centre, sized, aligned within the drawing area, then offset
+export interface PlacementTransform {
+  fit: PlacementFit       // fit inside, fill (cropped) or keep the size
+  align: PlacementAlign
+  scale: number           // factor on top of the fit
+  rotation: number        // degrees clockwise
+  mirrorX: boolean        // flip left to right
+  mirrorY: boolean        // flip top to bottom
+  offsetX: number         // mm
+  offsetY: number
+}
+
+// Acceleration limits for the motion planner
+export interface MotionLimits {
+  acceleration: {
+    X: number  // mm/s²
+    Y: number
+  }
+  maxAxisSpeed: {
+    X: number  // mm/s
+    Y: number
+  }
+  junctionDeviation: number  // mm, how far a corner may be rounded off in speed terms
+  minJunctionSpeed: number   // mm/s
+}
+
+// One constant-velocity slice of a motion profile: each port turns the
+// given degrees over the given duration
+export interface MotionStep {
+  duration: number  // ms
+  degrees: Record<string, number>
 }
 
 export interface DrawingArea {
@@ -173,13 +274,6 @@ export interface MovementValidatorConfig {
   dangerZones?: {x1: number, y1: number, x2: number, y2: number}[]
 }
 
-export interface PlotterSequence {
-  name: string
-  moves: PlotterMove[]
-  boundingBox: BoundingBox
-  estimatedTime?: number
-}
-
 export interface BoundingBox {
   minX: number
   maxX: number
@@ -201,6 +295,14 @@ export const HOME_POSITION = {
 }
 
 
+// Where the pen waits to be swapped between layers on the default A5 sheet:
+// the far end of the carriage, clear of the hub and easy to reach. Other
+// sheets use PaperProfiles.penChangePosition.
+export const PEN_CHANGE_POSITION = {
+  x: A5_SIZE.width,
+  y: 0
+}
+
 export const PEN_POSITIONS = {
   UP: 0,
   DOWN: -45
@@ -214,6 +316,10 @@ export const DEFAULT_SETTINGS: CalibrationSettings = {
   maxTravel: {
     X: A5_SIZE.width,
     Y: A5_SIZE.height
+  },
+  backlash: {
+    X: 0,
+    Y: 0
   }
 };
 
@@ -246,12 +352,31 @@ export const DEFAULT_CALIBRATION: CalibrationSettings & SimpleCalibration = {
     X: MOVEMENT_BOUNDS.maxX,
     Y: MOVEMENT_BOUNDS.maxY
   },
+  backlash: {
+    X: 0,
+    Y: 0
+  },
   x: 10,
   y: 10
 };
 
 export const MONITORING_INTERVAL = 100 // ms
 
+export const DEFAULT_MOTION_LIMITS: MotionLimits = {
+  acceleration: {
+    X: 200,  // pen carriage
+    Y: 100   // paper roll carries more inertia
+  },
+  maxAxisSpeed: {
+    X: 60,
+    Y: 40
+  },
+  junctionDeviation: 0.05,
+  minJunctionSpeed: 0
+}
+
+export const DEFAULT_CURVE_TOLERANCE = 0.1 // mm, max chord deviation when flattening curves
+
 export type NotificationType = 'error' | 'success' | 'info'
 
 export type Direction = 'forward' | 'backward';
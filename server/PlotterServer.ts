@@ -0,0 +1,271 @@
+// server/PlotterServer.ts
+
+import { WebSocketServer, WebSocket } from 'ws'
+import {
+  CalibrationSettings,
+  DEFAULT_CALIBRATION,
+  DEFAULT_MOTION_LIMITS,
+  MOVEMENT_BOUNDS,
+  MovementValidatorConfig,
+  PEN_POSITIONS,
+  PenAssignment,
+  Point
+} from '@/lib/types'
+import { PlotterDriver } from '@/lib/PlotterDriver'
+import { MovementValidator } from '@/lib/MovementValidator'
+import { PathExecutor } from '@/lib/pathUtils'
+import { JobQueue, PlotJob } from '@/lib/JobQueue'
+import { SequenceSchema } from '@/lib/SequenceSchema'
+import {
+  ClientMessage,
+  PlotterProtocol,
+  PlotterStatus,
+  PROTOCOL_VERSION,
+  ServerMessage
+} from '@/lib/PlotterProtocol'
+
+export interface PlotterServerOptions {
+  port: number
+  host?: string
+  driver: PlotterDriver
+  calibration?: CalibrationSettings
+  bounds?: MovementValidatorConfig
+  penChangePosition?: Point     // plotter coordinates; PEN_CHANGE_POSITION when missing
+}
+
+const TELEMETRY_INTERVAL = 100  // ms between position frames per client
+
+// Headless plotter daemon. It owns the driver and its command queue; any
+// number of WebSocket clients share them, and every client sees the same
+// telemetry and job updates.
+export class PlotterServer {
+  readonly jobs: JobQueue
+  private readonly driver: PlotterDriver
+  private readonly validator: MovementValidator
+  private wss: WebSocketServer | null = null
+  private clients = new Set<WebSocket>()
+  private penChanges = new Map<string, (confirm: boolean) => void>()
+  private subscriptions: (() => void)[] = []
+  private lastPositionSent = 0
+  private pendingPosition: ReturnType<typeof setTimeout> | null = null
+
+  constructor(private readonly options: PlotterServerOptions) {
+    const calibration = options.calibration ?? DEFAULT_CALIBRATION
+    const simple = { x: calibration.degreesPerMM.X, y: calibration.degreesPerMM.Y }
+
+    this.driver = options.driver
+    this.driver.setCalibration(simple)
+    // Validation follows the UI: bounds are only enforced on real hardware
+    this.validator = new MovementValidator(options.bounds ?? MOVEMENT_BOUNDS, simple, this.driver.capabilities.simulated)
+
+    const executor = new PathExecutor(
+      this.driver,
+      calibration,
+      false,
+      50,
+      30,
+      this.validator,
+      DEFAULT_MOTION_LIMITS,
+      options.penChangePosition
+    )
+    this.jobs = new JobQueue(executor, this.validator, this.driver.commandQueue, (job, pen, layer, layerCount) =>
+      this.requestPenChange(job, pen, layer, layerCount)
+    )
+  }
+
+  async start(): Promise<void> {
+    await this.driver.connect()
+
+    this.subscriptions = [
+      this.driver.on('position', () => this.sendPosition()),
+      this.driver.on('connection', connected => this.broadcast({ type: 'connection', connected })),
+      this.jobs.onChange(job => this.broadcast({ type: 'job', job }))
+    ]
+
+    const wss = new WebSocketServer({ port: this.options.port, host: this.options.host })
+    wss.on('connection', socket => this.accept(socket))
+    await new Promise<void>((resolve, reject) => {
+      wss.once('listening', resolve)
+      wss.once('error', reject)
+    })
+    this.wss = wss
+  }
+
+  async stop(): Promise<void> {
+    this.subscriptions.forEach(unsubscribe => unsubscribe())
+    this.subscriptions = []
+    if (this.pendingPosition) clearTimeout(this.pendingPosition)
+    this.pendingPosition = null
+
+    // Jobs waiting on a pen change are cancelled
+    this.penChanges.forEach(resolve => resolve(false))
+    this.penChanges.clear()
+
+    this.clients.forEach(client => client.close(1001, 'Plotter server stopping'))
+    this.clients.clear()
+    if (this.wss) {
+      const wss = this.wss
+      this.wss = null
+      await new Promise<void>(resolve => wss.close(() => resolve()))
+    }
+
+    if (this.driver.isConnected()) {
+      await this.driver.setPen(PEN_POSITIONS.UP)
+    }
+    await this.driver.disconnect()
+  }
+
+  status(): PlotterStatus {
+    return {
+      connected: this.driver.isConnected(),
+      busy: this.jobs.busy || this.driver.commandQueue.isExecuting,
+      position: this.driver.getPositionUpdate(),
+      pen: this.driver.getMotorPosition('C'),
+      jobs: this.jobs.list(),
+      clients: this.clients.size
+    }
+  }
+
+  private accept(socket: WebSocket): void {
+    this.clients.add(socket)
+    this.send(socket, {
+      type: 'hello',
+      protocol: PROTOCOL_VERSION,
+      driver: { id: this.driver.id, name: this.driver.name, capabilities: this.driver.capabilities },
+      status: this.status()
+    })
+
+    socket.on('message', data => this.receive(socket, data.toString()))
+    socket.on('close', () => this.clients.delete(socket))
+    socket.on('error', error => {
+      console.error('Client connection error:', error)
+      this.clients.delete(socket)
+    })
+  }
+
+  private async receive(socket: WebSocket, data: string): Promise<void> {
+    let message: ClientMessage
+    try {
+      message = PlotterProtocol.parseClientMessage(data)
+    } catch (error) {
+      this.send(socket, { type: 'error', message: error instanceof Error ? error.message : String(error) })
+      return
+    }
+
+    try {
+      const reply = await this.handle(message)
+      this.send(socket, reply)
+    } catch (error) {
+      this.send(socket, {
+        type: 'error',
+        requestId: message.requestId,
+        message: error instanceof Error ? error.message : String(error)
+      })
+    }
+  }
+
+  private async handle(message: ClientMessage): Promise<ServerMessage> {
+    const { requestId } = message
+
+    switch (message.type) {
+      case 'status':
+        return { type: 'status', requestId, status: this.status() }
+
+      case 'submit': {
+        const sequence = SequenceSchema.parse(JSON.stringify(message.sequence))
+        return { type: 'ok', requestId, job: this.jobs.submit(sequence) }
+      }
+
+      case 'pause':
+        return { type: 'ok', requestId, job: this.jobs.pause(message.jobId) }
+
+      case 'resume':
+        return { type: 'ok', requestId, job: this.jobs.resume(message.jobId) }
+
+      case 'cancel': {
+        const job = this.jobs.cancel(message.jobId)
+        // A job waiting on a pen change stops without one
+        this.penChanges.get(job.id)?.(false)
+        this.penChanges.delete(job.id)
+        return { type: 'ok', requestId, job }
+      }
+
+      case 'jog': {
+        const position = this.driver.getPositionUpdate()
+        await this.moveTo(position.x + message.dx, position.y + message.dy)
+        return { type: 'ok', requestId }
+      }
+
+      case 'moveTo':
+        await this.moveTo(message.x, message.y)
+        return { type: 'ok', requestId }
+
+      case 'pen': {
+        const position = message.position === 'up' ? PEN_POSITIONS.UP : PEN_POSITIONS.DOWN
+        await this.command(() => this.driver.setPen(position))
+        return { type: 'ok', requestId }
+      }
+
+      case 'penChange': {
+        const resolve = this.penChanges.get(message.jobId)
+        if (!resolve) {
+          throw new Error(`Job ${message.jobId} is not waiting for a pen change`)
+        }
+        this.penChanges.delete(message.jobId)
+        resolve(message.confirm)
+        return { type: 'ok', requestId }
+      }
+    }
+  }
+
+  private async moveTo(x: number, y: number): Promise<void> {
+    const validation = this.validator.validatePosition(x, y)
+    if (!validation.valid) {
+      throw new Error(`Invalid movement: ${validation.reason}`)
+    }
+    await this.command(() => this.driver.moveTo(x, y))
+  }
+
+  // Manual commands wait their turn, but are refused while a job is plotting
+  private async command(command: () => Promise<void>): Promise<void> {
+    if (this.jobs.busy) {
+      throw new Error('Plotter is busy with a job')
+    }
+    await this.driver.commandQueue.add(command)
+  }
+
+  // Ask every client to swap the pen; the first answer wins
+  private requestPenChange(job: PlotJob, pen: PenAssignment, layer: number, layerCount: number): Promise<boolean> {
+    return new Promise(resolve => {
+      this.penChanges.set(job.id, resolve)
+      this.broadcast({ type: 'penChange', jobId: job.id, pen, layer, layerCount })
+    })
+  }
+
+  private send(socket: WebSocket, message: ServerMessage): void {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(PlotterProtocol.encode(message))
+    }
+  }
+
+  // At most one frame per interval. A throttled frame is sent once the
+  // interval is up, with the position at that time, so the last one of a
+  // move always reaches the clients.
+  private sendPosition(): void {
+    if (this.pendingPosition) return
+    const wait = this.lastPositionSent + TELEMETRY_INTERVAL - Date.now()
+    if (wait > 0) {
+      this.pendingPosition = setTimeout(() => {
+        this.pendingPosition = null
+        this.sendPosition()
+      }, wait)
+      return
+    }
+    this.lastPositionSent = Date.now()
+    this.broadcast({ type: 'position', position: this.driver.getPositionUpdate() })
+  }
+
+  private broadcast(message: ServerMessage): void {
+    this.clients.forEach(client => this.send(client, message))
+  }
+}
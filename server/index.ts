@@ -0,0 +1,111 @@
+// server/index.ts
+//
+// Start the plotter daemon:
+//   npm run server -- [--driver simulation|poweredup] [--port 8765] [--host 0.0.0.0] [--paper A4] [--landscape]
+
+import { DriverRegistry } from '@/lib/drivers'
+import { DEFAULT_CALIBRATION } from '@/lib/types'
+import { DEFAULT_PAPER_PROFILE, PAPER_PRESETS, PaperPreset, PaperProfile, PaperProfiles } from '@/lib/PaperProfile'
+import { DEFAULT_SERVER_PORT } from '@/lib/PlotterProtocol'
+import { PlotterServer } from './PlotterServer'
+import { createNodeDriver } from './nodeDriver'
+
+interface ServerArgs {
+  driver: string
+  port: number
+  host?: string
+  paper: PaperProfile
+}
+
+const USAGE = `Usage: npm run server -- [options]
+
+  --driver <id>    plotter backend (${DriverRegistry.list().map(driver => driver.id).join(', ')}); default simulation
+  --port <n>       WebSocket port; default ${DEFAULT_SERVER_PORT}
+  --host <addr>    interface to listen on; default all
+  --paper <size>   ${Object.keys(PAPER_PRESETS).join(', ')}; default ${DEFAULT_PAPER_PROFILE.preset}
+  --landscape      turn the paper sideways`
+
+function parseArgs(argv: string[]): ServerArgs {
+  const args: ServerArgs = {
+    driver: DriverRegistry.defaultFor(true),
+    port: DEFAULT_SERVER_PORT,
+    paper: DEFAULT_PAPER_PROFILE
+  }
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i]
+    const value = () => {
+      const next = argv[++i]
+      if (next === undefined) throw new Error(`${flag} needs a value`)
+      return next
+    }
+
+    switch (flag) {
+      case '--driver':
+        args.driver = value()
+        break
+      case '--port':
+        args.port = Number(value())
+        if (!Number.isInteger(args.port) || args.port <= 0) throw new Error('--port must be a positive integer')
+        break
+      case '--host':
+        args.host = value()
+        break
+      case '--paper': {
+        const preset = value() as PaperPreset
+        if (!(preset in PAPER_PRESETS)) throw new Error(`Unknown paper size ${preset}`)
+        args.paper = { ...args.paper, preset, ...PAPER_PRESETS[preset as Exclude<PaperPreset, 'custom'>] }
+        break
+      }
+      case '--landscape':
+        args.paper = { ...args.paper, orientation: 'landscape' }
+        break
+      case '--help':
+        console.log(USAGE)
+        process.exit(0)
+      default:
+        throw new Error(`Unknown option ${flag}\n\n${USAGE}`)
+    }
+  }
+
+  return args
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2))
+  const calibration = PaperProfiles.calibration(args.paper, DEFAULT_CALIBRATION)
+  const driver = await createNodeDriver(args.driver, {
+    x: calibration.degreesPerMM.X,
+    y: calibration.degreesPerMM.Y
+  })
+
+  const server = new PlotterServer({
+    port: args.port,
+    host: args.host,
+    driver,
+    calibration,
+    bounds: PaperProfiles.movementBounds(args.paper),
+    penChangePosition: PaperProfiles.penChangePosition(args.paper)
+  })
+
+  console.log(`Connecting to ${driver.name}...`)
+  await server.start()
+  console.log(`Plotter server listening on ws://${args.host ?? 'localhost'}:${args.port}`)
+
+  const shutdown = async () => {
+    console.log('Stopping plotter server...')
+    try {
+      await server.stop()
+    } catch (error) {
+      console.error('Error while stopping:', error)
+    }
+    process.exit(0)
+  }
+  process.once('SIGINT', shutdown)
+  process.once('SIGTERM', shutdown)
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})
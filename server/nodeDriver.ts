@@ -0,0 +1,31 @@
+// server/nodeDriver.ts
+
+import { DriverRegistry } from '@/lib/drivers'
+import { PlotterDriver } from '@/lib/PlotterDriver'
+import { SimpleCalibration } from '@/lib/types'
+
+// node-poweredup is only needed when driving real hardware, so it is
+// loaded on demand rather than listed as a dependency
+async function loadPoweredUP(): Promise<any> {
+  const moduleName = 'node-poweredup'
+  try {
+    const { PoweredUP } = await import(/* webpackIgnore: true */ moduleName)
+    return new PoweredUP()
+  } catch (error) {
+    throw new Error(`Driving a hub from Node needs ${moduleName} (npm install ${moduleName}): ${error}`)
+  }
+}
+
+// Create a registered driver outside the browser
+export async function createNodeDriver(id: string, calibration: SimpleCalibration): Promise<PlotterDriver> {
+  const registration = DriverRegistry.list().find(driver => driver.id === id)
+  if (!registration) {
+    // Let the registry report the unknown id
+    return DriverRegistry.create(id)
+  }
+
+  return DriverRegistry.create(id, {
+    calibration,
+    poweredUP: registration.simulated ? undefined : await loadPoweredUP()
+  })
+}
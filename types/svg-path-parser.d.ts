@@ -11,6 +11,12 @@ declare module 'svg-path-parser' {
     y1?: number;
     x2?: number;
     y2?: number;
+    rx?: number;
+    ry?: number;
+    xAxisRotation?: number;
+    largeArc?: boolean;
+    sweep?: boolean;
+    relative?: boolean;
   }
 
   function parseSVG(path: string): SVGCommand[];